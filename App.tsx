@@ -1,258 +1,323 @@
-import React, { useState, useCallback, useRef } from 'react';
-import { TableData, Column, Cell, CellStyle } from './types';
-import Table from './components/Table';
-import { SaveIcon, LoadIcon } from './components/icons';
-import { DEFAULT_CELL_STYLE } from './constants';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { MenuItem } from './types';
+import { Table, useTableState, useTableStore, createInitialState, createTableFromRows } from './lib';
+import CsvImportDialog from './components/CsvImportDialog';
+import CsvExportDialog from './components/CsvExportDialog';
+import ContextMenu from './components/ContextMenu';
+import Dialog from './components/Dialog';
+import DocumentSwitcher from './components/DocumentSwitcher';
+import {
+  SaveIcon, LoadIcon, UndoIcon, RedoIcon, CsvIcon, ExportIcon, MarkdownIcon, HtmlIcon, SpreadsheetIcon, UsersIcon
+} from './components/icons';
+import { toCsv, toHtml, toMarkdown, toXlsx } from './utils/exporters';
+import { downloadFile, readFileAsText } from './utils/download';
+import { parseStateFile, serializeStateFile } from './utils/stateFile';
+import { useDocuments } from './hooks/useDocuments';
+import { useCollaboration } from './hooks/useCollaboration';
+import { COLLABORATOR_COLORS } from './constants';
 import './styles.css';
 
-const DEFAULT_COL_WIDTH = 200;
-const DEFAULT_ROW_HEIGHT = 40;
+// The relay started by `npm run relay`, on the machine serving the app.
+const RELAY_URL = `ws://${window.location.hostname}:4000`;
 
-const createNewCell = (): Cell => ({
-  id: crypto.randomUUID(),
-  content: '',
-  ...DEFAULT_CELL_STYLE,
-});
+const getRoomFromUrl = () => new URLSearchParams(window.location.search).get('room');
 
-const createInitialTable = (rows: number, cols: number): [TableData, Column[], number[]] => {
-  const tableData: TableData = Array.from({ length: rows }, () => 
-    Array.from({ length: cols }, createNewCell)
-  );
-  const columns: Column[] = Array.from({ length: cols }, () => ({
-    id: crypto.randomUUID(),
-    isHeader: false,
-    width: DEFAULT_COL_WIDTH,
-  }));
-  columns[0].isHeader = true; // Default first column as header
-  const rowHeights: number[] = Array.from({ length: rows }, () => DEFAULT_ROW_HEIGHT);
-  return [tableData, columns, rowHeights];
+const setRoomInUrl = (room: string | null) => {
+  const url = new URL(window.location.href);
+  if (room) url.searchParams.set('room', room);
+  else url.searchParams.delete('room');
+  window.history.replaceState(null, '', url);
 };
 
 const App: React.FC = () => {
-  const [tableData, setTableData] = useState<TableData | null>(null);
-  const [columns, setColumns] = useState<Column[] | null>(null);
-  const [rowHeights, setRowHeights] = useState<number[] | null>(null);
-  const [copiedStyle, setCopiedStyle] = useState<CellStyle | null>(null);
+  const table = useTableState();
+  const { store } = table;
+  // App only re-renders when the table appears or disappears, not on every edit.
+  const hasTable = useTableStore(store, s => s.getState() !== null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; text: string } | null>(null);
+  const [isCsvExportOpen, setIsCsvExportOpen] = useState(false);
+  const [exportMenuPosition, setExportMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const [stateFileErrors, setStateFileErrors] = useState<string[] | null>(null);
+  const [clipboardError, setClipboardError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvFileInputRef = useRef<HTMLInputElement>(null);
+  const [room, setRoom] = useState(getRoomFromUrl);
+  // Undo would take back other people's changes too, so it is off while collaborating.
+  const isCollaborating = room !== null;
 
-  const initializeTable = () => {
-    const [initialData, initialColumns, initialRowHeights] = createInitialTable(3, 3);
-    setTableData(initialData);
-    setColumns(initialColumns);
-    setRowHeights(initialRowHeights);
-  };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isCollaborating) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
 
-  const updateCellContent = useCallback((rowIndex: number, colIndex: number, content: string) => {
-    setTableData(prevData => {
-      if (!prevData) return null;
-      const newData = [...prevData];
-      newData[rowIndex] = [...newData[rowIndex]];
-      newData[rowIndex][colIndex] = { ...newData[rowIndex][colIndex], content };
-      return newData;
-    });
-  }, []);
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        table.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        table.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [table, isCollaborating]);
 
-  const updateCellStyles = useCallback((rowIndex: number, colIndex: number, styles: Partial<CellStyle>) => {
-    setTableData(prevData => {
-      if (!prevData) return null;
-      const newData = [...prevData];
-      newData[rowIndex] = [...newData[rowIndex]];
-      newData[rowIndex][colIndex] = { ...newData[rowIndex][colIndex], ...styles };
-      return newData;
-    })
-  }, []);
+  const {
+    documents,
+    currentDocument,
+    isRestoring,
+    error: documentError,
+    dismissError: dismissDocumentError,
+    openDocument,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+  } = useDocuments(store);
 
-  const addRow = useCallback(() => {
-    setTableData(prevData => {
-      if (!prevData || !columns) return prevData;
-      const newRow = Array.from({ length: columns.length }, createNewCell);
-      return [...prevData, newRow];
-    });
-    setRowHeights(prevHeights => prevHeights ? [...prevHeights, DEFAULT_ROW_HEIGHT] : null);
-  }, [columns]);
+  const [collaborator] = useState(() => ({
+    name: `Guest ${Math.floor(Math.random() * 900) + 100}`,
+    color: COLLABORATOR_COLORS[Math.floor(Math.random() * COLLABORATOR_COLORS.length)],
+  }));
+  // Joining a room replaces the table with the room's, so each room gets a document of its own.
+  // Until it is open the room isn't joined, and opening another document leaves the room.
+  const [roomDocumentId, setRoomDocumentId] = useState<string | null>(null);
+  const openingRoomRef = useRef<string | null>(null);
+  const currentDocumentId = currentDocument?.id;
+  const isInRoomDocument = roomDocumentId !== null && roomDocumentId === currentDocumentId;
+  const collaborationOptions = useMemo(
+    () => room && isInRoomDocument ? { url: RELAY_URL, room, ...collaborator } : null,
+    [room, isInRoomDocument, collaborator]
+  );
+  const collaboration = useCollaboration(store, table, collaborationOptions);
 
-  const addColumn = useCallback((direction: 'left' | 'right', colIndex: number) => {
-    const insertIndex = direction === 'right' ? colIndex + 1 : colIndex;
-    
-    setColumns(prevCols => {
-        if (!prevCols) return null;
-        const newCols = [...prevCols];
-        newCols.splice(insertIndex, 0, { id: crypto.randomUUID(), isHeader: false, width: DEFAULT_COL_WIDTH });
-        return newCols;
-    });
+  const startCollaborating = () => {
+    const newRoom = crypto.randomUUID().slice(0, 8);
+    setRoomInUrl(newRoom);
+    setRoom(newRoom);
+  };
 
-    setTableData(prevData => {
-        if (!prevData) return null;
-        return prevData.map(row => {
-            const newRow = [...row];
-            newRow.splice(insertIndex, 0, createNewCell());
-            return newRow;
-        });
-    });
-  }, []);
+  // The clipboard API is missing on pages that aren't served securely, e.g. over plain http on a local network.
+  const copyRoomLink = async () => {
+    try {
+      if (!navigator.clipboard) throw new Error('The clipboard API is not available.');
+      await navigator.clipboard.writeText(window.location.href);
+    } catch (error) {
+      console.error(error);
+      setClipboardError(`The browser didn't allow access to the clipboard. Copy the link from the address bar instead: ${window.location.href}`);
+    }
+  };
 
-  const deleteColumn = useCallback((colIndex: number) => {
-    if (columns && columns.length <= 1) return;
-    setColumns(prevCols => prevCols ? prevCols.filter((_, i) => i !== colIndex) : null);
-    setTableData(prevData => prevData ? prevData.map(row => row.filter((_, i) => i !== colIndex)) : null);
-  }, [columns]);
+  const stopCollaborating = () => {
+    setRoomInUrl(null);
+    setRoom(null);
+    setRoomDocumentId(null);
+    openingRoomRef.current = null;
+  };
 
-  const clearColumnContent = useCallback((colIndex: number) => {
-    setTableData(prevData => {
-        if (!prevData) return null;
-        return prevData.map(row => {
-            const newRow = [...row];
-            newRow[colIndex] = { ...newRow[colIndex], content: '' };
-            return newRow;
-        });
+  useEffect(() => {
+    // Wait for the last document to be restored, so a new room starts from its table.
+    if (!room || isRestoring || roomDocumentId || openingRoomRef.current === room) return;
+    openingRoomRef.current = room;
+    const name = `Room ${room}`;
+    // After a reload the room's document is the one restored.
+    if (currentDocument?.name === name) {
+      setRoomDocumentId(currentDocument.id);
+      return;
+    }
+    createDocument(store.getState() ?? createInitialState(), name).then(id => {
+      if (openingRoomRef.current !== room) return;
+      if (id) setRoomDocumentId(id);
+      else stopCollaborating();
     });
-  }, []);
-
-  const duplicateColumn = useCallback((colIndex: number) => {
-      setColumns(prevCols => {
-          if (!prevCols) return null;
-          const columnToDuplicate = prevCols[colIndex];
-          const newCols = [...prevCols];
-          newCols.splice(colIndex + 1, 0, { ...columnToDuplicate, id: crypto.randomUUID() });
-          return newCols;
-      });
+  }, [room, isRestoring, roomDocumentId, currentDocument, createDocument, store]);
 
-      setTableData(prevData => {
-          if (!prevData) return null;
-          return prevData.map(row => {
-              const newRow = [...row];
-              newRow.splice(colIndex + 1, 0, { ...row[colIndex], id: crypto.randomUUID() });
-              return newRow;
-          });
-      });
-  }, []);
+  useEffect(() => {
+    if (roomDocumentId && roomDocumentId !== currentDocumentId) stopCollaborating();
+  }, [roomDocumentId, currentDocumentId]);
 
-  const toggleHeaderColumn = useCallback((colIndex: number) => {
-    setColumns(prevCols => {
-        if (!prevCols) return null;
-        const newCols = [...prevCols];
-        newCols[colIndex] = { ...newCols[colIndex], isHeader: !newCols[colIndex].isHeader };
-        return newCols;
-    });
-  }, []);
+  const initializeTable = () => {
+    store.reset(createInitialState());
+  };
 
-  const setColumnColor = useCallback((colIndex: number, type: 'text' | 'background', value: string) => {
-      const propToUpdate = type === 'text' ? 'color' : 'backgroundColor';
-      setTableData(prevData => {
-          if (!prevData) return null;
-          return prevData.map(row => {
-              const newRow = [...row];
-              newRow[colIndex] = { ...newRow[colIndex], [propToUpdate]: value };
-              return newRow;
-          });
-      });
-  }, []);
+  const handleSaveState = () => {
+    const tableState = store.getState();
+    if (!tableState) return;
+    downloadFile(serializeStateFile(tableState), 'table-state.json', 'application/json');
+  };
 
-  const updateColumnWidth = useCallback((colIndex: number, width: number) => {
-    setColumns(prevCols => {
-      if (!prevCols) return null;
-      const newCols = [...prevCols];
-      newCols[colIndex] = { ...newCols[colIndex], width };
-      return newCols;
-    });
-  }, []);
+  const handleExportCsv = (delimiter: string, includeHeaderRow: boolean) => {
+    const tableState = store.getState();
+    if (!tableState) return;
+    downloadFile(toCsv(tableState, delimiter, includeHeaderRow), 'table.csv', 'text/csv');
+    setIsCsvExportOpen(false);
+  };
 
-  const updateRowHeight = useCallback((rowIndex: number, height: number) => {
-    setRowHeights(prevHeights => {
-      if (!prevHeights) return null;
-      const newHeights = [...prevHeights];
-      newHeights[rowIndex] = height;
-      return newHeights;
-    });
-  }, []);
+  const handleOpenExportMenu = (e: React.MouseEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setExportMenuPosition({ x: rect.left, y: rect.bottom + 5 });
+  };
 
-  const handleSaveState = () => {
-    if (!tableData || !columns || !rowHeights) return;
-    const state = { tableData, columns, rowHeights };
-    const blob = new Blob([JSON.stringify(state, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'table-state.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const getExportMenuItems = (): MenuItem[] => {
+    const tableState = store.getState();
+    if (!tableState) return [];
+    return [
+      { type: 'item', icon: <CsvIcon />, label: 'CSV…', action: () => setIsCsvExportOpen(true) },
+      { type: 'item', icon: <MarkdownIcon />, label: 'Markdown', action: () => downloadFile(toMarkdown(tableState), 'table.md', 'text/markdown') },
+      { type: 'item', icon: <HtmlIcon />, label: 'HTML', action: () => downloadFile(toHtml(tableState), 'table.html', 'text/html') },
+      {
+        type: 'item',
+        icon: <SpreadsheetIcon />,
+        label: 'Excel (.xlsx)',
+        action: () => downloadFile(toXlsx(tableState), 'table.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'),
+      },
+    ];
   };
 
-  const handleLoadState = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleSelectCsvFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    if (csvFileInputRef.current) csvFileInputRef.current.value = '';
     if (!file) return;
+    try {
+      setCsvImport({ fileName: file.name, text: await readFileAsText(file) });
+    } catch (error) {
+      console.error(error);
+    }
+  };
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result;
-        if (typeof text !== 'string') return;
-        const state = JSON.parse(text);
-        if (state.tableData && state.columns && state.rowHeights) {
-          setTableData(state.tableData);
-          setColumns(state.columns);
-          setRowHeights(state.rowHeights);
-        } else {
-          alert('Invalid state file.');
-        }
-      } catch (error) {
-        alert('Error loading state file.');
-        console.error(error);
-      }
-    };
-    reader.readAsText(file);
-    if(fileInputRef.current) fileInputRef.current.value = "";
+  const handleImportCsv = (rows: string[][], columnNames: string[] | null) => {
+    const importedState = createTableFromRows(rows, columnNames);
+    if (store.getState()) store.setState(importedState);
+    else store.reset(importedState);
+    setCsvImport(null);
+  };
+
+  const handleLoadState = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    try {
+      const result = parseStateFile(await readFileAsText(file));
+      // Like an import, loading a file is a step that can be undone.
+      if (!result.state) setStateFileErrors(result.errors);
+      else if (store.getState()) store.setState(result.state);
+      else store.reset(result.state);
+    } catch (error) {
+      setStateFileErrors(['The file could not be read.']);
+      console.error(error);
+    }
   };
 
   return (
-    <div className="app-container">
+    // The app's own dialogs and menus are the table's components, styled by its stylesheet.
+    <div className="app-container notion-like-table">
       <div className="main-content">
         <header className="header">
             <div className="header-top">
               <h1 className="title">Notion-like Table</h1>
-              {tableData && (
+              {hasTable && (
                 <div className="button-container">
+                   <DocumentSwitcher
+                      documents={documents}
+                      currentDocument={currentDocument}
+                      onOpen={openDocument}
+                      onCreate={() => createDocument(createInitialState())}
+                      onRename={renameDocument}
+                      onDuplicate={duplicateDocument}
+                      onDelete={deleteDocument}
+                   />
+                   <button
+                      onClick={table.undo}
+                      disabled={!table.canUndo || isCollaborating}
+                      className="button icon-button"
+                      title="Undo (Ctrl+Z)"
+                   >
+                      <UndoIcon/>
+                   </button>
+                   <button
+                      onClick={table.redo}
+                      disabled={!table.canRedo || isCollaborating}
+                      className="button icon-button"
+                      title="Redo (Ctrl+Shift+Z)"
+                   >
+                      <RedoIcon/>
+                   </button>
+                   {isCollaborating ? (
+                     <div className="collaboration-status" title={collaboration.status === 'connected' ? `Room ${room}` : `Can't reach the relay at ${RELAY_URL}`}>
+                       {collaboration.peers.map(peer => (
+                         <span key={peer.id} className="collaborator-avatar" style={{ backgroundColor: peer.color }} title={peer.name}>
+                           {peer.name.slice(0, 1)}
+                         </span>
+                       ))}
+                       {collaboration.status === 'disconnected' && collaborationOptions ? (
+                         <button onClick={collaboration.reconnect} className="button save-button">
+                            <UsersIcon/> Reconnect
+                         </button>
+                       ) : (
+                         <button
+                            onClick={copyRoomLink}
+                            className="button save-button"
+                            disabled={collaboration.status !== 'connected'}
+                         >
+                            <UsersIcon/> {collaboration.status === 'connected' ? 'Copy Link' : 'Connecting…'}
+                         </button>
+                       )}
+                       <button onClick={stopCollaborating} className="button load-button">Leave</button>
+                     </div>
+                   ) : (
+                     <button onClick={startCollaborating} className="button save-button">
+                        <UsersIcon/> Collaborate
+                     </button>
+                   )}
+                   <button
+                      onClick={() => csvFileInputRef.current?.click()}
+                      className="button save-button"
+                      disabled={isCollaborating}
+                   >
+                      <CsvIcon/> Import CSV
+                   </button>
                    <button 
                       onClick={handleSaveState} 
                       className="button save-button"
                    >
                       <SaveIcon/> Save State
+                   </button>
+                   <button
+                      onClick={handleOpenExportMenu}
+                      className="button save-button"
+                   >
+                      <ExportIcon/> Export
                    </button>
                     <input type="file" ref={fileInputRef} onChange={handleLoadState} accept=".json" style={{ display: 'none' }} />
                    <button 
                       onClick={() => fileInputRef.current?.click()} 
                       className="button load-button"
+                      disabled={isCollaborating}
                     >
                       <LoadIcon/> Load State
                    </button>
                 </div>
               )}
             </div>
+          <input type="file" ref={csvFileInputRef} onChange={handleSelectCsvFile} accept=".csv,.tsv,.txt,text/csv" style={{ display: 'none' }} />
           <p className="subtitle">A fully interactive and customizable table component built with React.</p>
+          {collaborationOptions && collaboration.status === 'disconnected' && (
+            <p className="collaboration-notice">
+              You're offline, so the table is read-only until you reconnect.
+              {collaboration.hasUnsentChanges && ' Your last edits may not have reached the room.'}
+            </p>
+          )}
         </header>
         
-        {tableData && columns && rowHeights ? (
-          <Table 
-            tableData={tableData}
-            columns={columns}
-            rowHeights={rowHeights}
-            updateCellContent={updateCellContent}
-            updateCellStyles={updateCellStyles}
-            addRow={addRow}
-            addColumn={addColumn}
-            deleteColumn={deleteColumn}
-            clearColumnContent={clearColumnContent}
-            duplicateColumn={duplicateColumn}
-            toggleHeaderColumn={toggleHeaderColumn}
-            setColumnColor={setColumnColor}
-            updateColumnWidth={updateColumnWidth}
-            updateRowHeight={updateRowHeight}
-            copiedStyle={copiedStyle}
-            setCopiedStyle={setCopiedStyle}
+        {hasTable ? (
+          <Table
+            state={table}
+            remoteCursors={collaboration.peers}
+            onActiveCellChange={collaboration.setActiveCell}
           />
-        ) : (
+        ) : !isRestoring && (
           <div className="create-container">
             <button
               onClick={initializeTable}
@@ -260,8 +325,66 @@ const App: React.FC = () => {
             >
               Create a Table
             </button>
+            <button
+              onClick={() => csvFileInputRef.current?.click()}
+              className="button save-button import-csv-button"
+            >
+              <CsvIcon/> Import CSV
+            </button>
           </div>
         )}
+        {csvImport && (
+          <CsvImportDialog
+            fileName={csvImport.fileName}
+            text={csvImport.text}
+            onImport={handleImportCsv}
+            onClose={() => setCsvImport(null)}
+          />
+        )}
+        {exportMenuPosition && (
+          <ContextMenu
+            x={exportMenuPosition.x}
+            y={exportMenuPosition.y}
+            items={getExportMenuItems()}
+            onClose={() => setExportMenuPosition(null)}
+            menuClassName="context-menu-sm"
+          />
+        )}
+        {isCsvExportOpen && (
+          <CsvExportDialog onExport={handleExportCsv} onClose={() => setIsCsvExportOpen(false)} />
+        )}
+        {documentError && (
+          <Dialog
+            title="Can't access saved documents"
+            onClose={dismissDocumentError}
+            actions={<button onClick={dismissDocumentError} className="button load-button">OK</button>}
+          >
+            <div className="dialog-errors"><p>{documentError}</p></div>
+          </Dialog>
+        )}
+        {clipboardError && (
+          <Dialog
+            title="Can't use the clipboard"
+            onClose={() => setClipboardError(null)}
+            actions={<button onClick={() => setClipboardError(null)} className="button load-button">OK</button>}
+          >
+            <div className="dialog-errors"><p>{clipboardError}</p></div>
+          </Dialog>
+        )}
+        {stateFileErrors && (
+          <Dialog
+            title="Can't load state file"
+            onClose={() => setStateFileErrors(null)}
+            actions={<button onClick={() => setStateFileErrors(null)} className="button load-button">OK</button>}
+          >
+            <div className="dialog-errors">
+              <p>The file is not a valid table state:</p>
+              <ul>
+                {stateFileErrors.map((error, index) => <li key={index}>{error}</li>)}
+              </ul>
+            </div>
+          </Dialog>
+        )}
       </div>
     </div>
   );
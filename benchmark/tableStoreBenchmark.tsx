@@ -0,0 +1,120 @@
+import React, { Profiler, useState } from 'react';
+import ReactDOM from 'react-dom/client';
+import { flushSync } from 'react-dom';
+import TableGrid from '../components/TableGrid';
+import { TableStore, createTableStore } from '../utils/tableStore';
+import { TableActions, createTableActions, createTableFromRows } from '../utils/tableActions';
+import { useTableStore } from '../hooks/useTableStore';
+import '../table.css';
+import '../styles.css';
+
+// Compares the cost of committing one cell edit on a 5,000×20 table when only
+// the edited cell re-renders, against re-rendering the whole table as the app
+// did when it held the table in React state. Run `npm run benchmark`.
+
+const NUM_ROWS = 5000;
+const NUM_COLS = 20;
+const NUM_EDITS = 200;
+
+interface Result {
+  name: string;
+  commitsPerEdit: number;
+  renderMsPerEdit: number;
+  totalMsPerEdit: number;
+}
+
+const createBenchmarkTable = () => {
+  const rows = Array.from({ length: NUM_ROWS }, (_, row) =>
+    Array.from({ length: NUM_COLS }, (_, col) => (col % 2 ? String((row * 31 + col * 7) % 1000) : `Item ${row}-${col}`))
+  );
+  const store = createTableStore(createTableFromRows(rows, null));
+  return { store, actions: createTableActions(store) };
+};
+
+// Re-renders on every change to the table, like the App used to.
+const WholeTableRerender: React.FC<{ store: TableStore; actions: TableActions }> = ({ store, actions }) => {
+  useTableStore(store, s => s.getState());
+  return <TableGrid store={store} actions={actions} copiedStyle={null} setCopiedStyle={() => {}} />;
+};
+
+const waitForPaint = () => new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve, 0)));
+
+const runScenario = async (name: string, render: (store: TableStore, actions: TableActions, onRender: React.ProfilerOnRenderCallback) => React.ReactNode): Promise<Result> => {
+  const { store, actions } = createBenchmarkTable();
+  const container = document.createElement('div');
+  document.body.appendChild(container);
+  const root = ReactDOM.createRoot(container);
+
+  let commits = 0;
+  let renderMs = 0;
+  const onRender: React.ProfilerOnRenderCallback = (_id, _phase, actualDuration) => {
+    commits++;
+    renderMs += actualDuration;
+  };
+  flushSync(() => root.render(render(store, actions, onRender)));
+  await waitForPaint();
+  commits = 0;
+  renderMs = 0;
+
+  let totalMs = 0;
+  for (let edit = 0; edit < NUM_EDITS; edit++) {
+    // Edit cells near the top, which are rendered.
+    const start = performance.now();
+    flushSync(() => actions.updateCellContent(edit % 10, edit % NUM_COLS, `Edit ${edit}`));
+    totalMs += performance.now() - start;
+  }
+
+  root.unmount();
+  container.remove();
+  return { name, commitsPerEdit: commits / NUM_EDITS, renderMsPerEdit: renderMs / NUM_EDITS, totalMsPerEdit: totalMs / NUM_EDITS };
+};
+
+const Benchmark: React.FC = () => {
+  const [results, setResults] = useState<Result[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const run = async () => {
+    setIsRunning(true);
+    const next: Result[] = [];
+    next.push(await runScenario('Per-cell subscriptions', (store, actions, onRender) => (
+      <Profiler id="table" onRender={onRender}>
+        <TableGrid store={store} actions={actions} copiedStyle={null} setCopiedStyle={() => {}} />
+      </Profiler>
+    )));
+    next.push(await runScenario('Whole table re-renders', (store, actions, onRender) => (
+      <Profiler id="table" onRender={onRender}>
+        <WholeTableRerender store={store} actions={actions} />
+      </Profiler>
+    )));
+    console.table(next);
+    setResults(next);
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="app-container notion-like-table">
+      <h1 className="title">Table store benchmark</h1>
+      <p className="subtitle">{NUM_EDITS} cell edits on a {NUM_ROWS.toLocaleString()}×{NUM_COLS} table.</p>
+      <button onClick={run} disabled={isRunning} className="button save-button">{isRunning ? 'Running…' : 'Run'}</button>
+      {results.length > 0 && (
+        <table>
+          <thead>
+            <tr><th>Scenario</th><th>Commits per edit</th><th>Render ms per edit</th><th>Total ms per edit</th></tr>
+          </thead>
+          <tbody>
+            {results.map(result => (
+              <tr key={result.name}>
+                <td>{result.name}</td>
+                <td>{result.commitsPerEdit.toFixed(1)}</td>
+                <td>{result.renderMsPerEdit.toFixed(2)}</td>
+                <td>{result.totalMsPerEdit.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+ReactDOM.createRoot(document.getElementById('root')!).render(<Benchmark />);
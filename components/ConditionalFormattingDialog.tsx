@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import Dialog from './Dialog';
+import { ClearIcon, PlusIcon } from './icons';
+import { Column, ConditionFormatRule, FilterOperator, FormatRule } from '../types';
+import { COLORS, FILTER_OPERATORS } from '../constants';
+import { createRegex } from '../utils/filtering';
+
+interface ConditionalFormattingDialogProps {
+  column: Column;
+  onSave: (rules: FormatRule[]) => void;
+  onClose: () => void;
+}
+
+const TEXT_COLORS = COLORS.text.slice(1);
+const BACKGROUND_COLORS = COLORS.background.slice(1);
+const SCALE_COLORS = BACKGROUND_COLORS.map(({ name, swatchColor }) => ({ name: name.replace(' background', ''), color: swatchColor }));
+
+const createConditionRule = (): FormatRule => ({
+  id: crypto.randomUUID(),
+  type: 'condition',
+  operator: 'contains',
+  value: '',
+  style: { backgroundColor: BACKGROUND_COLORS.find(c => c.name === 'Green background')?.backgroundColor },
+});
+
+const createColorScaleRule = (): FormatRule => ({
+  id: crypto.randomUUID(),
+  type: 'colorScale',
+  minColor: SCALE_COLORS.find(c => c.name === 'Red')!.color,
+  maxColor: SCALE_COLORS.find(c => c.name === 'Green')!.color,
+});
+
+const ConditionalFormattingDialog: React.FC<ConditionalFormattingDialogProps> = ({ column, onSave, onClose }) => {
+  const [rules, setRules] = useState<FormatRule[]>(column.formatRules ?? []);
+
+  const updateRule = (id: string, changes: Partial<FormatRule>) => {
+    setRules(prev => prev.map(rule => (rule.id === id ? { ...rule, ...changes } as FormatRule : rule)));
+  };
+
+  const updateRuleStyle = (rule: ConditionFormatRule, changes: ConditionFormatRule['style']) => {
+    const style = { ...rule.style, ...changes };
+    if (!style.color) delete style.color;
+    if (!style.backgroundColor) delete style.backgroundColor;
+    updateRule(rule.id, { style });
+  };
+
+  const renderCondition = (rule: ConditionFormatRule) => {
+    const needsValue = FILTER_OPERATORS.find(op => op.operator === rule.operator)?.needsValue;
+    const isInvalid = rule.operator === 'regex' && rule.value !== '' && !createRegex(rule.value);
+    return (
+      <>
+        <select
+          value={rule.operator}
+          onChange={(e) => updateRule(rule.id, { operator: e.target.value as FilterOperator })}
+          className="dialog-select"
+        >
+          {FILTER_OPERATORS.map(op => <option key={op.operator} value={op.operator}>{op.label}</option>)}
+        </select>
+        {needsValue && (
+          <input
+            value={rule.value}
+            onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+            placeholder="Value"
+            title={isInvalid ? 'Invalid regular expression' : undefined}
+            className={`dialog-input format-rule-value ${isInvalid ? 'invalid' : ''}`}
+          />
+        )}
+        <select value={rule.style.color ?? ''} onChange={(e) => updateRuleStyle(rule, { color: e.target.value })} className="dialog-select">
+          <option value="">Same text</option>
+          {TEXT_COLORS.map(c => <option key={c.color} value={c.color}>{c.name}</option>)}
+        </select>
+        <select
+          value={rule.style.backgroundColor ?? ''}
+          onChange={(e) => updateRuleStyle(rule, { backgroundColor: e.target.value })}
+          className="dialog-select"
+        >
+          <option value="">Same background</option>
+          {BACKGROUND_COLORS.map(c => <option key={c.backgroundColor} value={c.backgroundColor}>{c.name}</option>)}
+        </select>
+        <span className="format-rule-preview" style={rule.style}>Aa</span>
+      </>
+    );
+  };
+
+  return (
+    <Dialog
+      title={`Conditional formatting: ${column.name}`}
+      onClose={onClose}
+      className="dialog-lg"
+      actions={
+        <>
+          <button onClick={onClose} className="button save-button">Cancel</button>
+          <button onClick={() => onSave(rules)} className="button load-button">Save</button>
+        </>
+      }
+    >
+      <div className="sort-keys">
+        {rules.map(rule => (
+          <div key={rule.id} className="sort-key">
+            <span className="sort-key-label">{rule.type === 'condition' ? 'If value' : 'Scale'}</span>
+            {rule.type === 'condition' ? renderCondition(rule) : (
+              <>
+                <span className="format-rule-scale-label">from</span>
+                <select value={rule.minColor} onChange={(e) => updateRule(rule.id, { minColor: e.target.value })} className="dialog-select">
+                  {SCALE_COLORS.map(c => <option key={c.color} value={c.color}>{c.name}</option>)}
+                </select>
+                <span className="format-rule-scale-label">to</span>
+                <select value={rule.maxColor} onChange={(e) => updateRule(rule.id, { maxColor: e.target.value })} className="dialog-select">
+                  {SCALE_COLORS.map(c => <option key={c.color} value={c.color}>{c.name}</option>)}
+                </select>
+                <span
+                  className="format-rule-preview format-rule-scale-preview"
+                  style={{ backgroundImage: `linear-gradient(to right, ${rule.minColor}, ${rule.maxColor})` }}
+                />
+              </>
+            )}
+            <button onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))} className="dialog-close-button" title="Remove">
+              <ClearIcon />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="format-rule-buttons">
+        <button onClick={() => setRules(prev => [...prev, createConditionRule()])} className="text-button">
+          <PlusIcon /> <span>Add rule</span>
+        </button>
+        <button onClick={() => setRules(prev => [...prev, createColorScaleRule()])} className="text-button">
+          <PlusIcon /> <span>Add color scale</span>
+        </button>
+      </div>
+      <p className="dialog-note">
+        Rules color cells by their value and are applied over the cells' own colors. When several rules match a cell, the one higher in the list wins.
+        Color scales shade numbers from the lowest to the highest in the column.
+      </p>
+    </Dialog>
+  );
+};
+
+export default ConditionalFormattingDialog;
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import Dialog from './Dialog';
+import { CSV_DELIMITERS } from '../constants';
+
+interface CsvExportDialogProps {
+  onExport: (delimiter: string, includeHeaderRow: boolean) => void;
+  onClose: () => void;
+}
+
+const CsvExportDialog: React.FC<CsvExportDialogProps> = ({ onExport, onClose }) => {
+  const [delimiter, setDelimiter] = useState(',');
+  const [includeHeaderRow, setIncludeHeaderRow] = useState(true);
+
+  return (
+    <Dialog
+      title="Export CSV"
+      onClose={onClose}
+      actions={
+        <>
+          <button onClick={onClose} className="button save-button">Cancel</button>
+          <button onClick={() => onExport(delimiter, includeHeaderRow)} className="button load-button">Download</button>
+        </>
+      }
+    >
+      <div className="dialog-options">
+        <label className="dialog-field">
+          <span>Delimiter</span>
+          <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className="dialog-select">
+            {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+          </select>
+        </label>
+        <label className="dialog-checkbox">
+          <input type="checkbox" checked={includeHeaderRow} onChange={(e) => setIncludeHeaderRow(e.target.checked)} />
+          <span>Include column names as the first row</span>
+        </label>
+      </div>
+    </Dialog>
+  );
+};
+
+export default CsvExportDialog;
@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import Dialog from './Dialog';
+import { CSV_DELIMITERS } from '../constants';
+import { parseCsv } from '../utils/csv';
+
+const PREVIEW_ROWS = 8;
+const MAX_LISTED_ERRORS = 20;
+
+interface CsvImportDialogProps {
+  fileName: string;
+  text: string;
+  onImport: (rows: string[][], columnNames: string[] | null) => void;
+  onClose: () => void;
+}
+
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  let best = ',';
+  let bestCount = 0;
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const count = firstLine.split(value).length - 1;
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ fileName, text, onImport, onClose }) => {
+  const [delimiter, setDelimiter] = useState(() => detectDelimiter(text));
+  const [useHeaderRow, setUseHeaderRow] = useState(true);
+
+  const { rows, errors } = useMemo(() => parseCsv(text, delimiter), [text, delimiter]);
+  const columnNames = useHeaderRow && rows.length ? rows[0] : null;
+  const dataRows = useHeaderRow ? rows.slice(1) : rows;
+  const numCols = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+  return (
+    <Dialog
+      title={`Import ${fileName}`}
+      onClose={onClose}
+      className="dialog-lg"
+      actions={
+        <>
+          <button onClick={onClose} className="button save-button">Cancel</button>
+          <button
+            onClick={() => onImport(dataRows, columnNames)}
+            disabled={!numCols}
+            className="button load-button"
+          >
+            Import {dataRows.length} {dataRows.length === 1 ? 'row' : 'rows'}
+          </button>
+        </>
+      }
+    >
+      <div className="dialog-options">
+        <label className="dialog-field">
+          <span>Delimiter</span>
+          <select value={delimiter} onChange={(e) => setDelimiter(e.target.value)} className="dialog-select">
+            {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+          </select>
+        </label>
+        <label className="dialog-checkbox">
+          <input type="checkbox" checked={useHeaderRow} onChange={(e) => setUseHeaderRow(e.target.checked)} />
+          <span>First row contains column names</span>
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="dialog-errors">
+          <p>
+            {errors.length} {errors.length === 1 ? 'problem' : 'problems'} found. Malformed rows will be imported as
+            parsed, padded with empty cells where fields are missing.
+          </p>
+          <ul>
+            {errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+              <li key={index}>Row {error.record} (line {error.line}): {error.message}</li>
+            ))}
+            {errors.length > MAX_LISTED_ERRORS && <li>…and {errors.length - MAX_LISTED_ERRORS} more.</li>}
+          </ul>
+        </div>
+      )}
+
+      <div className="dialog-preview">
+        <table className="preview-table">
+          {columnNames && (
+            <thead>
+              <tr>{Array.from({ length: numCols }, (_, i) => <th key={i}>{columnNames[i] ?? ''}</th>)}</tr>
+            </thead>
+          )}
+          <tbody>
+            {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+              <tr key={rowIndex}>{Array.from({ length: numCols }, (_, i) => <td key={i}>{row[i] ?? ''}</td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+        {dataRows.length > PREVIEW_ROWS && (
+          <p className="dialog-note">Showing {PREVIEW_ROWS} of {dataRows.length} rows.</p>
+        )}
+      </div>
+    </Dialog>
+  );
+};
+
+export default CsvImportDialog;
@@ -0,0 +1,35 @@
+import React, { useEffect } from 'react';
+import { ClearIcon } from './icons';
+
+interface DialogProps {
+  title: string;
+  onClose: () => void;
+  actions?: React.ReactNode;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const Dialog: React.FC<DialogProps> = ({ title, onClose, actions, className = '', children }) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="dialog-backdrop" onMouseDown={(e) => { if (e.target === e.currentTarget) onClose(); }}>
+      <div className={`dialog ${className}`} role="dialog" aria-label={title}>
+        <div className="dialog-header">
+          <h2 className="dialog-title">{title}</h2>
+          <button onClick={onClose} className="dialog-close-button"><ClearIcon /></button>
+        </div>
+        <div className="dialog-body">{children}</div>
+        {actions && <div className="dialog-actions">{actions}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default Dialog;
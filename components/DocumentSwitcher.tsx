@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { MenuItem } from '../types';
+import { TableDocumentSummary } from '../utils/storage';
+import ContextMenu from './ContextMenu';
+import Dialog from './Dialog';
+import { CheckIcon, ChevronDownIcon, DeleteIcon, DocumentIcon, DuplicateIcon, PlusIcon, RenameIcon } from './icons';
+
+interface DocumentSwitcherProps {
+  documents: TableDocumentSummary[];
+  currentDocument: TableDocumentSummary | null;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const DocumentSwitcher: React.FC<DocumentSwitcherProps> = ({
+  documents, currentDocument, onOpen, onCreate, onRename, onDuplicate, onDelete,
+}) => {
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const [renameValue, setRenameValue] = useState<string | null>(null);
+
+  const handleOpenMenu = (e: React.MouseEvent) => {
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setMenuPosition({ x: rect.left, y: rect.bottom + 5 });
+  };
+
+  const handleRename = () => {
+    const name = renameValue?.trim();
+    if (currentDocument && name) onRename(currentDocument.id, name);
+    setRenameValue(null);
+  };
+
+  const handleDelete = () => {
+    if (currentDocument && window.confirm(`Delete "${currentDocument.name}"? This cannot be undone.`)) {
+      onDelete(currentDocument.id);
+    }
+  };
+
+  const getMenuItems = (): MenuItem[] => [
+    ...documents.map((doc): MenuItem => ({
+      type: 'item',
+      icon: doc.id === currentDocument?.id ? <CheckIcon /> : <DocumentIcon />,
+      label: doc.name,
+      action: () => { if (doc.id !== currentDocument?.id) onOpen(doc.id); },
+    })),
+    { type: 'divider' },
+    { type: 'item', icon: <PlusIcon />, label: 'New table', action: onCreate },
+    { type: 'item', icon: <RenameIcon />, label: 'Rename…', action: () => setRenameValue(currentDocument?.name ?? ''), disabled: !currentDocument },
+    { type: 'item', icon: <DuplicateIcon />, label: 'Duplicate', action: () => currentDocument && onDuplicate(currentDocument.id), disabled: !currentDocument },
+    { type: 'item', icon: <DeleteIcon />, label: 'Delete', action: handleDelete, disabled: !currentDocument },
+  ];
+
+  return (
+    <>
+      <button onClick={handleOpenMenu} className="button document-switcher-button" title="Switch table">
+        <DocumentIcon />
+        <span className="document-switcher-name">{currentDocument?.name ?? 'Untitled'}</span>
+        <ChevronDownIcon />
+      </button>
+      {menuPosition && (
+        <ContextMenu
+          x={menuPosition.x}
+          y={menuPosition.y}
+          items={getMenuItems()}
+          onClose={() => setMenuPosition(null)}
+          menuClassName="context-menu-md"
+        />
+      )}
+      {renameValue !== null && (
+        <Dialog
+          title="Rename table"
+          onClose={() => setRenameValue(null)}
+          actions={
+            <>
+              <button onClick={() => setRenameValue(null)} className="button save-button">Cancel</button>
+              <button onClick={handleRename} disabled={!renameValue.trim()} className="button load-button">Rename</button>
+            </>
+          }
+        >
+          <input
+            autoFocus
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); }}
+            className="dialog-input document-name-input"
+          />
+        </Dialog>
+      )}
+    </>
+  );
+};
+
+export default DocumentSwitcher;
@@ -1,75 +1,186 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Cell } from '../types';
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { Column, RemoteCursor, RichTextSpan, SelectOption } from '../types';
+import { TableStore } from '../utils/tableStore';
+import { useCell, useFormulaValue } from '../hooks/useTableStore';
+import { formatDate, formatNumber, isChecked, splitMultiSelect, toHref } from '../utils/propertyTypes';
+import { FORMULA_ERROR_CODES } from '../utils/formula';
+import { ConditionalStyle, NumberRange, getConditionalStyle } from '../utils/conditionalFormatting';
+import { getDefaultAlign, resolveCellStyle } from '../utils/cellStyle';
+import { MarkupEdit, escapeEdit, fromMarkup, insertLink, richTextEqual, toMarkup, toggleMarker } from '../utils/richText';
+import SelectEditor, { SelectPill } from './SelectEditor';
+import RichText from './RichText';
+
+const NO_CONDITIONAL_STYLE: ConditionalStyle = {};
+
+// Markers wrapped around the selection by Ctrl (or Cmd) plus the key; Ctrl+K makes a link instead.
+const FORMAT_SHORTCUTS: Record<string, string> = { b: '**', i: '*', e: '`', 'Shift+s': '~~' };
 
 interface EditableCellProps {
-    cellData: Cell;
+    // The cell subscribes to its own data, so editing it doesn't re-render the rest of the table.
+    store: TableStore;
+    cellId: string;
+    /** Row in the table data, used to look up the cell's formula result. */
+    dataRow: number;
     rowIndex: number;
     colIndex: number;
     isEditing: boolean;
     isActive: boolean;
+    isSelected: boolean;
+    /** Matches the search in the find bar. */
+    isFindMatch?: boolean;
     isHeader: boolean;
+    /** Other people who have this cell selected. */
+    remoteCursors?: RemoteCursor[];
+    column: Column;
+    /** The range of numbers in the column, when one of its formatting rules is a color scale. */
+    colorScaleRange?: NumberRange;
     rowHeight: number;
+    /** How many rows and columns the cell spans when it is the top-left cell of a merged block. */
+    rowSpan?: number;
+    colSpan?: number;
+    /** Where the cell sticks, from the left of the table, when its column is frozen. */
+    frozenLeft?: number;
+    /** The cell is in the last frozen column, so it draws the edge the other columns scroll under. */
+    isFrozenEdge?: boolean;
     numRows: number;
-    numCols: number;
-    updateCellContent: (rowIndex: number, colIndex: number, content: string) => void;
+    /** The cell Tab moves to, stepping over cells hidden by merged blocks. */
+    getTabTarget: (cell: { row: number; col: number }, backwards: boolean) => { row: number; col: number };
+    updateCellContent: (rowIndex: number, colIndex: number, content: string, richText?: RichTextSpan[]) => void;
+    updateColumnOptions: (colIndex: number, options: SelectOption[]) => void;
     setEditingCell: (cell: { row: number; col: number } | null) => void;
     setActiveCell: (cell: { row: number; col: number }) => void;
     onContextMenu: (e: React.MouseEvent, rowIndex: number, colIndex: number) => void;
+    onMouseDown: (e: React.MouseEvent, rowIndex: number, colIndex: number) => void;
+    onMouseEnter: (rowIndex: number, colIndex: number) => void;
     onResizeStart: (e: React.MouseEvent, type: 'col' | 'row', index: number) => void;
 }
 
 const EditableCell: React.FC<EditableCellProps> = ({
-    cellData,
+    store,
+    cellId,
+    dataRow,
     rowIndex,
     colIndex,
     isEditing,
     isActive,
+    isSelected,
+    isFindMatch,
     isHeader,
+    remoteCursors,
+    column,
+    colorScaleRange,
     rowHeight,
+    rowSpan = 1,
+    colSpan = 1,
+    frozenLeft,
+    isFrozenEdge,
     numRows,
-    numCols,
+    getTabTarget,
     updateCellContent,
+    updateColumnOptions,
     setEditingCell,
     setActiveCell,
     onContextMenu,
+    onMouseDown,
+    onMouseEnter,
     onResizeStart,
 }) => {
-    const [inputValue, setInputValue] = useState(cellData.content);
-    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const cellData = useCell(store, cellId)!;
+    // The result shown instead of the content when the cell holds a formula.
+    const computedValue = useFormulaValue(store, dataRow, colIndex);
+    // Text with rich formatting is edited as markup; plain text stays plain until it is first formatted.
+    const hasRichText = column.type === 'text' && !!cellData.richText;
+    const editValue = hasRichText ? toMarkup(cellData.richText!) : cellData.content;
+    const [inputValue, setInputValue] = useState(editValue);
+    const [isMarkup, setIsMarkup] = useState(hasRichText);
+    const pendingSelectionRef = useRef<[number, number] | null>(null);
+    const editorRef = useRef<HTMLTextAreaElement & HTMLInputElement>(null);
+    const isSelectType = column.type === 'select' || column.type === 'multiSelect';
+
+    useEffect(() => {
+      setInputValue(editValue);
+      setIsMarkup(hasRichText);
+    }, [editValue, hasRichText]);
 
-    useEffect(() => setInputValue(cellData.content), [cellData.content]);
+    useLayoutEffect(() => {
+      if (!pendingSelectionRef.current || !editorRef.current) return;
+      editorRef.current.setSelectionRange(...pendingSelectionRef.current);
+      pendingSelectionRef.current = null;
+    }, [inputValue]);
 
     useEffect(() => {
       if (isEditing) {
-        textareaRef.current?.focus();
-        setTimeout(() => textareaRef.current?.select(), 0);
+        editorRef.current?.focus();
+        setTimeout(() => editorRef.current?.select(), 0);
       }
     }, [isEditing]);
 
     useEffect(() => {
-      if (isEditing && textareaRef.current) {
-        textareaRef.current.style.height = 'auto';
-        textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
+      if (isEditing && column.type === 'text' && editorRef.current) {
+        editorRef.current.style.height = 'auto';
+        editorRef.current.style.height = `${editorRef.current.scrollHeight}px`;
       }
     }, [inputValue, isEditing]);
 
     const commitChanges = () => {
-      if (inputValue !== cellData.content) {
-        updateCellContent(rowIndex, colIndex, inputValue);
+      const { content, richText } = isMarkup ? fromMarkup(inputValue) : { content: inputValue, richText: undefined };
+      if (content !== cellData.content || !richTextEqual(richText, cellData.richText)) {
+        updateCellContent(rowIndex, colIndex, content, richText);
+      } else {
+        setInputValue(editValue);
+        setIsMarkup(hasRichText);
       }
       setEditingCell(null);
     }
 
-    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const handleFormatShortcut = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return false;
+      const key = `${e.shiftKey ? 'Shift+' : ''}${e.key.toLowerCase()}`;
+      const marker = FORMAT_SHORTCUTS[key];
+      if (!marker && key !== 'k') return false;
+      e.preventDefault();
+      // Formulas can't be formatted.
+      if (!isMarkup && inputValue.startsWith('=')) return true;
+      const { selectionStart, selectionEnd } = e.currentTarget;
+      const current: MarkupEdit = { value: inputValue, selectionStart, selectionEnd };
+      const markup = isMarkup ? current : escapeEdit(current);
+      const edited = marker ? toggleMarker(markup, marker) : insertLink(markup);
+      pendingSelectionRef.current = [edited.selectionStart, edited.selectionEnd];
+      setIsMarkup(true);
+      setInputValue(edited.value);
+      return true;
+    };
+
+    const toggleCheckbox = () => {
+      updateCellContent(rowIndex, colIndex, isChecked(cellData.content) ? '' : 'true');
+      setActiveCell({ row: rowIndex, col: colIndex });
+    };
+
+    const closeSelectEditor = () => {
+      setEditingCell(null);
+      setActiveCell({ row: rowIndex, col: colIndex });
+    };
+
+    const handleSelectChange = (value: string) => {
+      setInputValue(value);
+      updateCellContent(rowIndex, colIndex, value);
+    };
+
+    const handleCreateOption = (option: SelectOption) => {
+      updateColumnOptions(colIndex, [...(column.options ?? []), option]);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
       if (e.key === 'Escape') {
         e.preventDefault();
-        setInputValue(cellData.content);
+        setInputValue(editValue);
+        setIsMarkup(hasRichText);
         setEditingCell(null);
         setActiveCell({ row: rowIndex, col: colIndex });
       } else if (e.key === 'Enter' && !e.shiftKey) {
         e.preventDefault();
         commitChanges();
-        const nextRow = Math.min(numRows - 1, rowIndex + 1);
+        const nextRow = Math.min(numRows - 1, rowIndex + rowSpan);
         setActiveCell({ row: nextRow, col: colIndex });
         setTimeout(() => {
           const nextCell = document.querySelector(`[data-row='${nextRow}'][data-col='${colIndex}']`) as HTMLElement;
@@ -78,60 +189,146 @@ const EditableCell: React.FC<EditableCellProps> = ({
       } else if (e.key === 'Tab') {
         e.preventDefault();
         commitChanges();
-        let currentIdx = rowIndex * numCols + colIndex;
-        if (e.shiftKey) {
-          currentIdx = (currentIdx - 1 + numCols * numRows) % (numCols * numRows);
-        } else {
-          currentIdx = (currentIdx + 1) % (numCols * numRows);
-        }
-        const nextActiveCell = { row: Math.floor(currentIdx / numCols), col: currentIdx % numCols };
+        const nextActiveCell = getTabTarget({ row: rowIndex, col: colIndex }, e.shiftKey);
         setActiveCell(nextActiveCell);
         setEditingCell(nextActiveCell);
       }
     };
 
-    const cellStyle: React.CSSProperties = {
-      backgroundColor: cellData.backgroundColor,
-      height: `${rowHeight}px`,
-    };
+    const conditionalStyle = column.formatRules?.length
+      ? getConditionalStyle(computedValue ?? cellData.content, column, colorScaleRange)
+      : NO_CONDITIONAL_STYLE;
+
+    const style = resolveCellStyle(cellData, column);
+    const backgroundColor = conditionalStyle.backgroundColor ?? style.backgroundColor;
+    // Frozen cells cover the cells scrolling beneath them, so their (translucent) color is laid over an opaque one.
+    const cellStyle: React.CSSProperties = frozenLeft === undefined
+      ? { backgroundColor, height: `${rowHeight}px` }
+      : { left: `${frozenLeft}px`, height: `${rowHeight}px`, '--cell-background': backgroundColor } as React.CSSProperties;
 
     const contentStyle: React.CSSProperties = {
-      color: cellData.color,
-      fontWeight: isHeader ? 'bold' : cellData.fontWeight,
-      fontSize: `${cellData.fontSize}px`,
+      color: conditionalStyle.color ?? style.color,
+      fontWeight: isHeader ? 'bold' : style.fontWeight,
+      fontSize: `${style.fontSize}px`,
+      textAlign: style.textAlign ?? getDefaultAlign(column),
+    };
+
+    const renderDisplay = () => {
+      const content = computedValue ?? cellData.content;
+      if (FORMULA_ERROR_CODES.some(code => code === computedValue)) {
+        return <span className="cell-formula-error" title={cellData.content}>{computedValue}</span>;
+      }
+      switch (column.type) {
+        case 'number':
+          return formatNumber(content, column.numberFormat);
+        case 'date':
+          return formatDate(content);
+        case 'checkbox':
+          return <input type="checkbox" className="cell-checkbox" checked={isChecked(content)} readOnly tabIndex={-1} />;
+        case 'select':
+        case 'multiSelect':
+          return (
+            <div className="select-pill-list">
+              {(column.type === 'select' ? [content].filter(Boolean) : splitMultiSelect(content)).map(name => (
+                <SelectPill key={name} name={name} options={column.options ?? []} />
+              ))}
+            </div>
+          );
+        case 'url':
+          return content ? (
+            <a href={toHref(content)} target="_blank" rel="noopener noreferrer" className="cell-link" onClick={(e) => e.stopPropagation()}>
+              {content}
+            </a>
+          ) : null;
+        case 'text':
+        default:
+          return cellData.richText ? <RichText spans={cellData.richText} /> : content;
+      }
+    };
+
+    const renderEditor = () => {
+      switch (column.type) {
+        case 'select':
+        case 'multiSelect':
+          return (
+            <SelectEditor
+              value={cellData.content}
+              options={column.options ?? []}
+              isMulti={column.type === 'multiSelect'}
+              onChange={handleSelectChange}
+              onCreateOption={handleCreateOption}
+              onClose={closeSelectEditor}
+              onKeyDown={handleKeyDown}
+            />
+          );
+        case 'number':
+        case 'date':
+        case 'url':
+          return (
+            <input
+              ref={editorRef}
+              // Number and date inputs can't hold a formula, so they fall back to plain text.
+              type={column.type === 'date' && !inputValue.startsWith('=') ? 'date' : 'text'}
+              inputMode={column.type === 'number' ? 'decimal' : undefined}
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onBlur={commitChanges}
+              onKeyDown={handleKeyDown}
+              className="cell-textarea cell-input"
+              style={contentStyle}
+            />
+          );
+        case 'text':
+        default:
+          return (
+            <textarea
+              ref={editorRef}
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onBlur={commitChanges}
+              onKeyDown={(e) => { if (!handleFormatShortcut(e)) handleKeyDown(e); }}
+              className="cell-textarea"
+              style={{ ...contentStyle, height: 'auto' }}
+            />
+          );
+      }
     };
 
     return (
       <td
-        className={`table-cell ${isActive ? 'active' : ''}`}
-        style={cellStyle}
+        className={`table-cell ${isActive ? 'active' : ''} ${isSelected ? 'selected' : ''} ${isFindMatch ? 'find-match' : ''} ${remoteCursors ? 'remote-active' : ''} ${frozenLeft !== undefined ? 'frozen' : ''} ${isFrozenEdge ? 'frozen-edge' : ''}`}
+        style={remoteCursors ? { ...cellStyle, '--remote-cursor-color': remoteCursors[0].color } as React.CSSProperties : cellStyle}
+        rowSpan={rowSpan > 1 ? rowSpan : undefined}
+        colSpan={colSpan > 1 ? colSpan : undefined}
         data-row={rowIndex}
         data-col={colIndex}
-        onClick={() => {
-          if (isEditing) return;
+        onClick={(e) => {
+          if (isEditing || e.shiftKey) return;
+          if (column.type === 'checkbox') {
+            toggleCheckbox();
+            return;
+          }
           setEditingCell({ row: rowIndex, col: colIndex });
         }}
-        onDoubleClick={() => setEditingCell({ row: rowIndex, col: colIndex })}
+        onDoubleClick={() => {
+          if (column.type !== 'checkbox') setEditingCell({ row: rowIndex, col: colIndex });
+        }}
         onContextMenu={(e) => onContextMenu(e, rowIndex, colIndex)}
+        onMouseDown={(e) => { if (!isEditing) onMouseDown(e, rowIndex, colIndex); }}
+        onMouseEnter={() => onMouseEnter(rowIndex, colIndex)}
       >
-        {!isEditing ? (
+        {(!isEditing || isSelectType) && (
           <div className="cell-content" style={contentStyle}>
-            {cellData.content || ' '}
+            {renderDisplay() || ' '}
           </div>
-        ) : (
-          <textarea
-            ref={textareaRef}
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onBlur={commitChanges}
-            onKeyDown={handleKeyDown}
-            className="cell-textarea"
-            style={{ ...contentStyle, height: 'auto' }}
-          />
+        )}
+        {isEditing && renderEditor()}
+        {remoteCursors && (
+          <div className="remote-cursor-label">{remoteCursors.map(cursor => cursor.name).join(', ')}</div>
         )}
 
-        <div className="resize-handle resize-handle-col" onMouseDown={(e) => onResizeStart(e, 'col', colIndex)} />
-        <div className="resize-handle resize-handle-row" onMouseDown={(e) => onResizeStart(e, 'row', rowIndex)} />
+        <div className="resize-handle resize-handle-col" onMouseDown={(e) => onResizeStart(e, 'col', colIndex + colSpan - 1)} />
+        <div className="resize-handle resize-handle-row" onMouseDown={(e) => onResizeStart(e, 'row', rowIndex + rowSpan - 1)} />
       </td>
     );
 }
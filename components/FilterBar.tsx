@@ -0,0 +1,93 @@
+import React, { useEffect, useRef } from 'react';
+import { ClearIcon, FilterIcon, PlusIcon } from './icons';
+import { Column, ColumnFilter, FilterConjunction, FilterOperator } from '../types';
+import { FILTER_OPERATORS } from '../constants';
+import { createRegex } from '../utils/filtering';
+
+interface FilterBarProps {
+  columns: Column[];
+  filters: ColumnFilter[];
+  conjunction: FilterConjunction;
+  visibleRows: number;
+  totalRows: number;
+  /** The filter whose value input should receive focus, e.g. right after it was added. */
+  focusFilterId: string | null;
+  onFiltersChange: (filters: ColumnFilter[]) => void;
+  onConjunctionChange: (conjunction: FilterConjunction) => void;
+  onAddFilter: () => void;
+}
+
+const FilterBar: React.FC<FilterBarProps> = ({
+  columns, filters, conjunction, visibleRows, totalRows, focusFilterId, onFiltersChange, onConjunctionChange, onAddFilter,
+}) => {
+  const focusRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    focusRef.current?.focus();
+  }, [focusFilterId]);
+
+  const updateFilter = (id: string, changes: Partial<ColumnFilter>) => {
+    onFiltersChange(filters.map(filter => (filter.id === id ? { ...filter, ...changes } : filter)));
+  };
+
+  return (
+    <div className="filter-bar">
+      {filters.map((filter, index) => {
+        const needsValue = FILTER_OPERATORS.find(op => op.operator === filter.operator)?.needsValue;
+        const isInvalid = filter.operator === 'regex' && filter.value !== '' && !createRegex(filter.value);
+        return (
+          <div key={filter.id} className="filter-row">
+            {index === 0 ? (
+              <span className="filter-row-label">Where</span>
+            ) : index === 1 ? (
+              <select
+                value={conjunction}
+                onChange={(e) => onConjunctionChange(e.target.value as FilterConjunction)}
+                className="dialog-select filter-row-label"
+              >
+                <option value="and">And</option>
+                <option value="or">Or</option>
+              </select>
+            ) : (
+              <span className="filter-row-label">{conjunction === 'and' ? 'And' : 'Or'}</span>
+            )}
+            <select value={filter.columnId} onChange={(e) => updateFilter(filter.id, { columnId: e.target.value })} className="dialog-select">
+              {columns.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+            </select>
+            <select
+              value={filter.operator}
+              onChange={(e) => updateFilter(filter.id, { operator: e.target.value as FilterOperator })}
+              className="dialog-select"
+            >
+              {FILTER_OPERATORS.map(op => <option key={op.operator} value={op.operator}>{op.label}</option>)}
+            </select>
+            {needsValue && (
+              <input
+                ref={filter.id === focusFilterId ? focusRef : undefined}
+                value={filter.value}
+                onChange={(e) => updateFilter(filter.id, { value: e.target.value })}
+                placeholder="Value"
+                title={isInvalid ? 'Invalid regular expression' : undefined}
+                className={`dialog-input ${isInvalid ? 'invalid' : ''}`}
+              />
+            )}
+            <button
+              onClick={() => onFiltersChange(filters.filter(f => f.id !== filter.id))}
+              className="dialog-close-button"
+              title="Remove filter"
+            >
+              <ClearIcon />
+            </button>
+          </div>
+        );
+      })}
+      <div className="filter-bar-footer">
+        <button onClick={onAddFilter} className="text-button"><PlusIcon /> <span>Add filter</span></button>
+        <button onClick={() => onFiltersChange([])} className="text-button"><FilterIcon /> <span>Clear filters</span></button>
+        <span className="filter-bar-count">{visibleRows} of {totalRows} rows</span>
+      </div>
+    </div>
+  );
+};
+
+export default FilterBar;
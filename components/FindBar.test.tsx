@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import Table from './Table';
+import { createTableFromRows } from '../utils/tableActions';
+import { TableState } from '../types';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+// jsdom doesn't lay anything out, so there is nothing to observe.
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+// A press of the mouse the way a browser sends it: mousedown, mouseup, then click,
+// each handled and rendered before the next.
+const clickWithMouse = (element: Element) => ['mousedown', 'mouseup', 'click'].forEach(type => act(() => {
+  element.dispatchEvent(new MouseEvent(type, { bubbles: true, button: 0 }));
+}));
+
+const typeInto = (input: HTMLInputElement, value: string) => act(() => {
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')!.set!.call(input, value);
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+});
+
+const getCell = (row: number, col: number) =>
+  container.querySelectorAll('tbody tr')[row].querySelectorAll('td')[col + 1];
+
+const getButton = (label: string) =>
+  [...container.querySelectorAll<HTMLButtonElement>('.find-bar button')].find(button => button.textContent === label || button.title.startsWith(label))!;
+
+const openFindBar = (state: TableState, onChange?: (value: TableState) => void) => {
+  act(() => root.render(<Table defaultValue={state} onChange={onChange} />));
+  clickWithMouse(getCell(0, 0));
+  act(() => {
+    getCell(0, 0).dispatchEvent(new KeyboardEvent('keydown', { bubbles: true, key: 'f', ctrlKey: true }));
+  });
+  return container.querySelector<HTMLInputElement>('.find-bar-input')!;
+};
+
+describe('FindBar', () => {
+  it('moves through the matches when Next and Previous are clicked', () => {
+    const input = openFindBar(createTableFromRows([['apple'], ['pear'], ['apple'], ['apple']], null));
+    typeInto(input, 'apple');
+    const count = () => container.querySelector('.find-bar-count')!.textContent;
+    expect(count()).toBe('1 of 3');
+
+    clickWithMouse(getButton('Next match'));
+    expect(count()).toBe('2 of 3');
+    clickWithMouse(getButton('Next match'));
+    expect(count()).toBe('3 of 3');
+    clickWithMouse(getButton('Previous match'));
+    expect(count()).toBe('2 of 3');
+  });
+
+  it('replaces the active match when Replace is clicked', () => {
+    let value: TableState | undefined;
+    const input = openFindBar(createTableFromRows([['apple'], ['pear'], ['apple']], null), next => { value = next; });
+    typeInto(input, 'apple');
+    typeInto(container.querySelectorAll<HTMLInputElement>('.find-bar-input')[1], 'plum');
+
+    clickWithMouse(getButton('Replace'));
+    expect(value?.tableData.map(row => row[0].content)).toEqual(['plum', 'pear', 'apple']);
+    expect(container.querySelector('.find-bar-count')!.textContent).toBe('1 of 1');
+  });
+
+  it('limits the search to the active cell\'s column when the checkbox is clicked', () => {
+    const input = openFindBar(createTableFromRows([['apple', 'apple'], ['pear', 'apple']], null));
+    typeInto(input, 'apple');
+    const onlyInColumn = container.querySelectorAll<HTMLInputElement>('.find-bar-options input')[3];
+    expect(onlyInColumn.disabled).toBe(false);
+
+    clickWithMouse(onlyInColumn);
+    expect(onlyInColumn.checked).toBe(true);
+    expect(container.querySelector('.find-bar-count')!.textContent).toBe('1 of 1');
+  });
+});
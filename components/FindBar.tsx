@@ -0,0 +1,117 @@
+import React, { useEffect, useRef } from 'react';
+import { ClearIcon, MoveDownIcon, MoveUpIcon, SearchIcon } from './icons';
+import { Column, FindOptions } from '../types';
+
+interface FindBarProps {
+  columns: Column[];
+  options: FindOptions;
+  replacement: string;
+  isInvalid: boolean;
+  matchCount: number;
+  /** The position of the active cell among the matches, or null if it isn't one. */
+  currentMatch: number | null;
+  /** The column of the active cell, which "Only in column" limits the search to. */
+  activeColumnId: string | null;
+  /** Changes whenever the find input should receive focus again, e.g. when Ctrl+F is pressed while the bar is open. */
+  focusKey: number;
+  onOptionsChange: (options: FindOptions) => void;
+  onReplacementChange: (replacement: string) => void;
+  onFindNext: (backwards: boolean) => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+}
+
+const FindBar: React.FC<FindBarProps> = ({
+  columns, options, replacement, isInvalid, matchCount, currentMatch, activeColumnId, focusKey,
+  onOptionsChange, onReplacementChange, onFindNext, onReplace, onReplaceAll, onClose,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [focusKey]);
+
+  const updateOptions = (changes: Partial<FindOptions>) => onOptionsChange({ ...options, ...changes });
+  const columnName = columns.find(col => col.id === (options.columnId ?? activeColumnId))?.name;
+  const hasMatches = matchCount > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent, onEnter: () => void) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onEnter();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  let count = '';
+  if (isInvalid) count = 'Invalid regex';
+  else if (options.query && !hasMatches) count = 'No matches';
+  else if (hasMatches) count = currentMatch === null ? `${matchCount} matches` : `${currentMatch + 1} of ${matchCount}`;
+
+  return (
+    <div className="find-bar">
+      <div className="find-bar-row">
+        <SearchIcon />
+        <input
+          ref={inputRef}
+          value={options.query}
+          onChange={(e) => updateOptions({ query: e.target.value })}
+          onKeyDown={(e) => handleKeyDown(e, () => onFindNext(e.shiftKey))}
+          placeholder="Find"
+          title={isInvalid ? 'Invalid regular expression' : undefined}
+          className={`dialog-input find-bar-input ${isInvalid ? 'invalid' : ''}`}
+        />
+        <span className="find-bar-count">{count}</span>
+        <button onClick={() => onFindNext(true)} disabled={!hasMatches} className="dialog-close-button" title="Previous match (Shift+Enter)">
+          <MoveUpIcon />
+        </button>
+        <button onClick={() => onFindNext(false)} disabled={!hasMatches} className="dialog-close-button" title="Next match (Enter)">
+          <MoveDownIcon />
+        </button>
+        <button onClick={onClose} className="dialog-close-button" title="Close (Esc)">
+          <ClearIcon />
+        </button>
+      </div>
+      <div className="find-bar-row">
+        <input
+          value={replacement}
+          onChange={(e) => onReplacementChange(e.target.value)}
+          onKeyDown={(e) => handleKeyDown(e, onReplace)}
+          placeholder="Replace with"
+          className="dialog-input find-bar-input"
+        />
+        <button onClick={onReplace} disabled={!hasMatches} className="sort-bar-button">Replace</button>
+        <button onClick={onReplaceAll} disabled={!hasMatches} className="sort-bar-button">Replace all</button>
+      </div>
+      <div className="find-bar-options">
+        <label className="dialog-checkbox">
+          <input type="checkbox" checked={options.matchCase} onChange={(e) => updateOptions({ matchCase: e.target.checked })} />
+          <span>Match case</span>
+        </label>
+        <label className="dialog-checkbox">
+          <input type="checkbox" checked={options.wholeCell} onChange={(e) => updateOptions({ wholeCell: e.target.checked })} />
+          <span>Whole cell</span>
+        </label>
+        <label className="dialog-checkbox">
+          <input type="checkbox" checked={options.useRegex} onChange={(e) => updateOptions({ useRegex: e.target.checked })} />
+          <span>Regex</span>
+        </label>
+        <label className="dialog-checkbox">
+          <input
+            type="checkbox"
+            checked={options.columnId !== null}
+            disabled={!columnName}
+            onChange={(e) => updateOptions({ columnId: e.target.checked ? activeColumnId : null })}
+          />
+          <span>{columnName ? `Only in ${columnName}` : 'Only in selected column'}</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default FindBar;
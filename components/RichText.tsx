@@ -0,0 +1,27 @@
+import React from 'react';
+import { RichTextSpan } from '../types';
+import { getSafeHref } from '../utils/richText';
+
+// Spans are rendered as elements, never as HTML, so cell text can't inject markup.
+const RichText: React.FC<{ spans: RichTextSpan[] }> = ({ spans }) => (
+  <>
+    {spans.map((span, index) => {
+      let node: React.ReactNode = span.text;
+      if (span.code) node = <code className="cell-code">{node}</code>;
+      if (span.strikethrough) node = <s>{node}</s>;
+      if (span.italic) node = <em>{node}</em>;
+      if (span.bold) node = <strong>{node}</strong>;
+      const href = span.href && getSafeHref(span.href);
+      if (href) {
+        node = (
+          <a href={href} target="_blank" rel="noopener noreferrer" className="cell-link" onClick={(e) => e.stopPropagation()}>
+            {node}
+          </a>
+        );
+      }
+      return <React.Fragment key={index}>{node}</React.Fragment>;
+    })}
+  </>
+);
+
+export default RichText;
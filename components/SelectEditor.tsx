@@ -0,0 +1,123 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { SelectOption } from '../types';
+import { createSelectOption, joinMultiSelect, splitMultiSelect } from '../utils/propertyTypes';
+import { CheckIcon, ClearIcon } from './icons';
+
+interface SelectEditorProps {
+  value: string;
+  options: SelectOption[];
+  isMulti: boolean;
+  onChange: (value: string) => void;
+  onCreateOption: (option: SelectOption) => void;
+  onClose: () => void;
+  onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+}
+
+export const SelectPill: React.FC<{ name: string; options: SelectOption[]; onRemove?: () => void }> = ({ name, options, onRemove }) => {
+  const option = options.find(o => o.name === name);
+  return (
+    <span className="select-pill" style={{ backgroundColor: option?.color ?? 'rgba(55, 65, 81, 0.5)' }}>
+      {name}
+      {onRemove && (
+        <button
+          className="select-pill-remove"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={(e) => { e.stopPropagation(); onRemove(); }}
+        >
+          <ClearIcon />
+        </button>
+      )}
+    </span>
+  );
+};
+
+const SelectEditor: React.FC<SelectEditorProps> = ({ value, options, isMulti, onChange, onCreateOption, onClose, onKeyDown }) => {
+  const [query, setQuery] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const selected = isMulti ? splitMultiSelect(value) : (value ? [value] : []);
+
+  useEffect(() => inputRef.current?.focus(), []);
+
+  useEffect(() => {
+    const handleOutsideClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleOutsideClick);
+    return () => document.removeEventListener('mousedown', handleOutsideClick);
+  }, [onClose]);
+
+  const toggleValue = (name: string) => {
+    if (!isMulti) {
+      onChange(selected[0] === name ? '' : name);
+      onClose();
+      return;
+    }
+    const next = selected.includes(name) ? selected.filter(v => v !== name) : [...selected, name];
+    onChange(joinMultiSelect(next));
+  };
+
+  const trimmedQuery = query.trim().replace(/,/g, '');
+  const filteredOptions = options.filter(o => o.name.toLowerCase().includes(trimmedQuery.toLowerCase()));
+  const canCreate = trimmedQuery !== '' && !options.some(o => o.name === trimmedQuery);
+
+  const selectQuery = () => {
+    if (canCreate) {
+      onCreateOption(createSelectOption(trimmedQuery, options));
+      toggleValue(trimmedQuery);
+    } else if (filteredOptions.length > 0) {
+      toggleValue(filteredOptions[0].name);
+    }
+    setQuery('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      selectQuery();
+    } else if (e.key === 'Backspace' && query === '' && selected.length > 0) {
+      e.preventDefault();
+      toggleValue(selected[selected.length - 1]);
+    } else {
+      onKeyDown(e);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="select-editor" onClick={(e) => e.stopPropagation()}>
+      <div className="select-editor-input-row">
+        {selected.map(name => (
+          <SelectPill key={name} name={name} options={options} onRemove={() => toggleValue(name)} />
+        ))}
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={selected.length ? '' : 'Search for an option...'}
+          className="select-editor-input"
+        />
+      </div>
+      <div className="select-editor-options">
+        {filteredOptions.map(option => (
+          <div key={option.id} className="menu-item" onClick={() => toggleValue(option.name)}>
+            <SelectPill name={option.name} options={options} />
+            {selected.includes(option.name) && <CheckIcon />}
+          </div>
+        ))}
+        {canCreate && (
+          <div className="menu-item" onClick={selectQuery}>
+            <div className="menu-item-content">
+              <span>Create</span>
+              <SelectPill name={trimmedQuery} options={[]} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SelectEditor;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import Dialog from './Dialog';
+import { ClearIcon, PlusIcon } from './icons';
+import { Column, SortDirection, SortKey } from '../types';
+
+interface SortDialogProps {
+  columns: Column[];
+  sortKeys: SortKey[];
+  /** Sorts only what is displayed; the stored row order is untouched. */
+  onSortView: (sortKeys: SortKey[]) => void;
+  /** Physically reorders the rows in the table data. */
+  onReorderRows: (sortKeys: SortKey[]) => void;
+  onClose: () => void;
+}
+
+const SortDialog: React.FC<SortDialogProps> = ({ columns, sortKeys, onSortView, onReorderRows, onClose }) => {
+  const [keys, setKeys] = useState<SortKey[]>(() =>
+    sortKeys.length ? sortKeys : [{ columnId: columns[0].id, direction: 'asc' }]
+  );
+
+  const updateKey = (index: number, changes: Partial<SortKey>) => {
+    setKeys(prev => prev.map((key, i) => (i === index ? { ...key, ...changes } : key)));
+  };
+
+  const addKey = () => {
+    const unused = columns.find(col => !keys.some(key => key.columnId === col.id)) ?? columns[0];
+    setKeys(prev => [...prev, { columnId: unused.id, direction: 'asc' }]);
+  };
+
+  return (
+    <Dialog
+      title="Sort"
+      onClose={onClose}
+      actions={
+        <>
+          <button onClick={() => onReorderRows(keys)} disabled={!keys.length} className="button save-button">Reorder rows</button>
+          <button onClick={() => onSortView(keys)} className="button load-button">Sort view</button>
+        </>
+      }
+    >
+      <div className="sort-keys">
+        {keys.map((key, index) => (
+          <div key={index} className="sort-key">
+            <span className="sort-key-label">{index === 0 ? 'Sort by' : 'Then by'}</span>
+            <select value={key.columnId} onChange={(e) => updateKey(index, { columnId: e.target.value })} className="dialog-select">
+              {columns.map(col => <option key={col.id} value={col.id}>{col.name}</option>)}
+            </select>
+            <select
+              value={key.direction}
+              onChange={(e) => updateKey(index, { direction: e.target.value as SortDirection })}
+              className="dialog-select"
+            >
+              <option value="asc">Ascending</option>
+              <option value="desc">Descending</option>
+            </select>
+            <button onClick={() => setKeys(prev => prev.filter((_, i) => i !== index))} className="dialog-close-button" title="Remove">
+              <ClearIcon />
+            </button>
+          </div>
+        ))}
+      </div>
+      <button onClick={addKey} className="text-button"><PlusIcon /> <span>Add sort</span></button>
+      <p className="dialog-note">
+        "Sort view" changes only how rows are displayed and can be cleared at any time. "Reorder rows" rearranges the table itself.
+      </p>
+    </Dialog>
+  );
+};
+
+export default SortDialog;
@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import React, { act, useState } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import Table from './Table';
+import { TableStateHandle, useTableState } from '../hooks/useTableState';
+import { createTableFromRows } from '../utils/tableActions';
+import { TableState } from '../types';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+// jsdom doesn't lay anything out, so there is nothing to observe.
+globalThis.ResizeObserver ??= class {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+};
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+describe('Table', () => {
+  it('keeps the undo history when a controlled host rejects a change', () => {
+    let handle: TableStateHandle | undefined;
+    const initial = createTableFromRows([['a']], null);
+    // Takes every change except ones that write "rejected".
+    const Host = () => {
+      const [value, setValue] = useState<TableState>(initial);
+      handle = useTableState(initial);
+      const accept = (next: TableState) => {
+        if (next.tableData[0][0].content !== 'rejected') setValue(next);
+      };
+      return <Table state={handle} value={value} onChange={accept} />;
+    };
+    act(() => root.render(<Host />));
+    const content = () => handle!.store.getState()!.tableData[0][0].content;
+
+    act(() => handle!.updateCellContent(0, 0, 'b'));
+    expect(content()).toBe('b');
+    act(() => handle!.updateCellContent(0, 0, 'rejected'));
+    expect(content()).toBe('b');
+    expect(handle!.canUndo).toBe(true);
+
+    act(() => handle!.undo());
+    expect(content()).toBe('a');
+    expect(handle!.canUndo).toBe(false);
+  });
+});
@@ -0,0 +1,1130 @@
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
+import {
+  Cell, Column, CellStyle, ContextMenuData, RowContextMenuData, CellContextMenuData, MenuItem,
+  CellPosition, CellRange, SortKey, SortDirection, ColumnFilter, FilterConjunction, RemoteCursor, FindOptions, RichTextSpan
+} from '../types';
+import {
+  PlusIcon, MenuIcon, HeaderColumnIcon, InsertLeftIcon, InsertRightIcon,
+  DuplicateIcon, ClearIcon, DeleteIcon, RenameIcon, InsertAboveIcon, InsertBelowIcon, MoveUpIcon, MoveDownIcon,
+  SortAscIcon, SortDescIcon, SortIcon, FilterIcon, ConditionalFormatIcon, MergeCellsIcon, UnmergeCellsIcon,
+  FreezeColumnsIcon, ResetStyleIcon, PROPERTY_TYPE_ICONS
+} from './icons';
+import ContextMenu from './ContextMenu';
+import EditableCell from './EditableCell';
+import Dialog from './Dialog';
+import SortDialog from './SortDialog';
+import FilterBar from './FilterBar';
+import FindBar from './FindBar';
+import ConditionalFormattingDialog from './ConditionalFormattingDialog';
+import {
+  createClipboardMenuItems, createCopyPasteStyleMenuItems, createCellStyleSubMenu,
+  createPropertyTypeSubMenu, createNumberFormatSubMenu
+} from './menuItemsFactory';
+import { isChecked } from '../utils/propertyTypes';
+import { isCellInRange, isSingleCellRange, normalizeRange } from '../utils/selection';
+import { getSortedRowOrder } from '../utils/sorting';
+import { filterRowOrder, isFilterActive } from '../utils/filtering';
+import { cellKey } from '../utils/formula';
+import { withFormulaValues } from '../utils/formulaEngine';
+import { expandToMerges, findMerge, getTabTarget, getViewMerges, rangesIntersect, snapToMerge, toDataRange } from '../utils/merges';
+import { colorScaleRangesEqual, getColorScaleRanges } from '../utils/conditionalFormatting';
+import { getColumnStyle, getDefaultAlign, hasOwnStyle, resolveCellStyle } from '../utils/cellStyle';
+import { createFindRegex, findMatches, getAdjacentMatch, positionsEqual, replaceCellMatches } from '../utils/find';
+import { getOffsets, getVirtualItems } from '../utils/virtualization';
+import { TableStore, arraysEqual } from '../utils/tableStore';
+import { TableActions } from '../utils/tableActions';
+import { useTableStore } from '../hooks/useTableStore';
+import { useScrollViewport } from '../hooks/useScrollViewport';
+import { parseClipboardData, readClipboard, serializeClipboardText, serializeHtmlTable, writeClipboard } from '../utils/clipboard';
+
+const MIN_COL_WIDTH = 50;
+const MIN_ROW_HEIGHT = 28;
+// How far the pointer has to travel before pressing a header turns into a drag.
+const DRAG_THRESHOLD = 5;
+const ROW_HEADER_WIDTH = 48;
+// Rows and columns rendered beyond the edges of the viewport, so fast scrolling doesn't show blank space.
+const ROW_OVERSCAN = 5;
+const COL_OVERSCAN = 2;
+
+const ColumnNameInput: React.FC<{ name: string; onCommit: (name: string) => void; onCancel: () => void }> = ({ name, onCommit, onCancel }) => {
+  const [value, setValue] = useState(name);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const commit = () => {
+    const trimmed = value.trim();
+    if (trimmed && trimmed !== name) onCommit(trimmed);
+    else onCancel();
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          commit();
+        } else if (e.key === 'Escape') {
+          e.preventDefault();
+          onCancel();
+        }
+      }}
+      className="table-header-input"
+    />
+  );
+};
+
+interface TableGridProps {
+  store: TableStore;
+  actions: TableActions;
+  copiedStyle: CellStyle | null;
+  setCopiedStyle: (style: CellStyle | null) => void;
+  getHostColumnMenuItems?: (column: Column, colIndex: number) => MenuItem[];
+  getHostCellMenuItems?: (cell: Cell, position: CellPosition) => MenuItem[];
+  remoteCursors?: RemoteCursor[];
+  onActiveCellChange?: (cellId: string | null) => void;
+}
+
+// Items from the host application go below the table's own, after a divider.
+const withHostItems = (items: MenuItem[], hostItems: MenuItem[] = []): MenuItem[] =>
+  hostItems.length ? [...items, { type: 'divider' }, ...hostItems] : items;
+
+const NO_COLUMNS: Column[] = [];
+const NO_ROW_HEIGHTS: number[] = [];
+const NO_MATCHES: CellPosition[] = [];
+const NO_MERGES: CellRange[] = [];
+const selectColorScaleRanges = (s: TableStore) => getColorScaleRanges(s.getState(), s.getFormulaValues());
+const DEFAULT_FIND_OPTIONS: FindOptions = { query: '', matchCase: false, wholeCell: false, useRegex: false, columnId: null };
+
+// Selection, editing and keyboard navigation work in view rows; this maps each
+// displayed (sorted, not filtered out) row to its index in the table data.
+const getViewRows = (store: TableStore, sortKeys: SortKey[], filters: ColumnFilter[], conjunction: FilterConjunction): number[] => {
+  const state = store.getState();
+  if (!state) return [];
+  const { tableData, columns } = state;
+  if (!sortKeys.length && !filters.some(isFilterActive)) return tableData.map((_, index) => index);
+
+  // Sorting and filtering look at what cells display, i.e. formula results rather than formulas.
+  const valueData = withFormulaValues(tableData, store.getFormulaValues());
+  return filterRowOrder(getSortedRowOrder(valueData, columns, sortKeys), valueData, columns, filters, conjunction);
+};
+
+const TableGrid: React.FC<TableGridProps> = (props) => {
+  const { store, actions } = props;
+  // Table only subscribes to the table's shape, so editing a cell re-renders just that cell.
+  const columns = useTableStore(store, s => s.getState()?.columns ?? NO_COLUMNS);
+  const rowHeights = useTableStore(store, s => s.getState()?.rowHeights ?? NO_ROW_HEIGHTS);
+  const numDataRows = useTableStore(store, s => s.getState()?.tableData.length ?? 0);
+  const tableLayout = useTableStore(store, s => s.getLayout());
+  const colorScaleRanges = useTableStore(store, selectColorScaleRanges, colorScaleRangesEqual);
+  const merges = useTableStore(store, s => s.getState()?.merges ?? NO_MERGES);
+  const frozenColumns = useTableStore(store, s => s.getState()?.frozenColumns ?? 0);
+  // The anchor of the selection is the active cell; the focus is the corner that extends the range.
+  const [selection, setSelection] = useState<{ anchor: CellPosition; focus: CellPosition } | null>(null);
+  const [editingCell, setEditingCell] = useState<CellPosition | null>(null);
+  const [contextMenu, setContextMenu] = useState<ContextMenuData>(null);
+  const [rowContextMenu, setRowContextMenu] = useState<RowContextMenuData>(null);
+  const [cellContextMenu, setCellContextMenu] = useState<CellContextMenuData>(null);
+  const [renamingColIndex, setRenamingColIndex] = useState<number | null>(null);
+  const [resizing, setResizing] = useState<{ type: 'col' | 'row'; index: number; startPos: number; startSize: number } | null>(null);
+  const [isDragSelecting, setIsDragSelecting] = useState(false);
+  const [selectionRect, setSelectionRect] = useState<{ top: number; left: number; width: number; height: number } | null>(null);
+  const [dragStart, setDragStart] = useState<{ type: 'col' | 'row'; index: number; x: number; y: number } | null>(null);
+  const [drag, setDrag] = useState<{ type: 'col' | 'row'; fromIndex: number; dropIndex: number } | null>(null);
+  const [dropIndicator, setDropIndicator] = useState<{ top: number; left: number; width: number; height: number } | null>(null);
+  const suppressClickRef = useRef(false);
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]);
+  const [isSortDialogOpen, setIsSortDialogOpen] = useState(false);
+  const [filters, setFilters] = useState<ColumnFilter[]>([]);
+  const [filterConjunction, setFilterConjunction] = useState<FilterConjunction>('and');
+  const [focusFilterId, setFocusFilterId] = useState<string | null>(null);
+  // Null while the find bar is closed.
+  const [findOptions, setFindOptions] = useState<FindOptions | null>(null);
+  const [replacement, setReplacement] = useState('');
+  const [findFocusKey, setFindFocusKey] = useState(0);
+  const [formattingColumnId, setFormattingColumnId] = useState<string | null>(null);
+  const [clipboardError, setClipboardError] = useState<string | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+  const { ref: containerRef, element: container, viewport } = useScrollViewport();
+  // Measured from the rendered table: where the body starts, and how much borders add to each row's height.
+  const [layout, setLayout] = useState({ bodyTop: 0, rowBorder: 1 });
+
+  const selectViewRows = useCallback(
+    (s: TableStore) => getViewRows(s, sortKeys, filters, filterConjunction),
+    [sortKeys, filters, filterConjunction]
+  );
+  const computedViewRows = useTableStore(store, selectViewRows, arraysEqual);
+  const rowOrder = tableLayout?.rowOrder;
+  const viewRowsRef = useRef({ rows: computedViewRows, rowOrder });
+  // Keep rows in place while a cell is being edited so it doesn't jump away or vanish mid-edit.
+  // Rows added, removed or moved meanwhile (e.g. by a collaborator) still show up.
+  if (!editingCell || viewRowsRef.current.rowOrder !== rowOrder) {
+    viewRowsRef.current = { rows: computedViewRows, rowOrder };
+  }
+  const viewRows = viewRowsRef.current.rows;
+
+  // Other people's edits can move the cell being edited; follow it by id so the editor stays with it.
+  const editingCellIdRef = useRef<{ position: CellPosition; id: string } | null>(null);
+  if (editingCell) {
+    const getCellIdAt = (position: CellPosition) => store.getState()?.tableData[viewRows[position.row]]?.[position.col]?.id;
+    const edited = editingCellIdRef.current;
+    if (edited?.position !== editingCell) {
+      const id = getCellIdAt(editingCell);
+      editingCellIdRef.current = id ? { position: editingCell, id } : null;
+    } else if (getCellIdAt(editingCell) !== edited.id) {
+      const dataPosition = store.getCellPosition(edited.id);
+      const row = dataPosition ? viewRows.indexOf(dataPosition.row) : -1;
+      setEditingCell(dataPosition && row >= 0 ? { row, col: dataPosition.col } : null);
+    }
+  }
+  const viewMerges = useMemo(() => getViewMerges(merges, viewRows), [merges, viewRows]);
+  const findRegex = useMemo(() => findOptions && createFindRegex(findOptions), [findOptions]);
+  const findColumnId = findOptions?.columnId ?? null;
+  const selectFindMatches = useCallback((s: TableStore) => {
+    const state = s.getState();
+    if (!state || !findRegex) return NO_MATCHES;
+    // Cells hidden under a merged block can't be shown, so they aren't matched.
+    return findMatches(state.tableData, state.columns, viewRows, findRegex, findColumnId)
+      .filter(match => {
+        const merge = findMerge(viewMerges, match.row, match.col);
+        return !merge || (merge.start.row === match.row && merge.start.col === match.col);
+      });
+  }, [findRegex, findColumnId, viewRows, viewMerges]);
+  const matches = useTableStore(store, selectFindMatches, positionsEqual);
+  const matchKeys = useMemo(() => new Set(matches.map(({ row, col }) => cellKey(row, col))), [matches]);
+
+  const isViewSorted = sortKeys.length > 0;
+  const formattingColumn = columns.find(col => col.id === formattingColumnId);
+  const activeFilters = filters.filter(isFilterActive);
+
+  // Only the rows and columns in view are rendered; gaps of the same size stand in for the rest.
+  const rowOffsets = useMemo(
+    () => getOffsets(viewRows.map(dataRow => rowHeights[dataRow] + layout.rowBorder)),
+    [viewRows, rowHeights, layout.rowBorder]
+  );
+  const colOffsets = useMemo(() => getOffsets(columns.map(col => col.width)), [columns]);
+  const frozenWidth = colOffsets[Math.min(frozenColumns, columns.length)];
+
+  const activeCell = selection?.anchor ?? null;
+  // A selection of several cells takes in the whole of any merged block it reaches into.
+  const selectedRange: CellRange | null = !selection ? null
+    : selection.anchor === selection.focus ? normalizeRange({ start: selection.anchor, end: selection.focus })
+    : expandToMerges(normalizeRange({ start: selection.anchor, end: selection.focus }), viewMerges);
+
+  const setActiveCell = useCallback((cell: CellPosition | null) => {
+    setSelection(cell ? { anchor: cell, focus: cell } : null);
+  }, []);
+
+  const extendSelection = useCallback((focus: CellPosition) => {
+    setSelection(prev => prev ? { ...prev, focus } : { anchor: focus, focus });
+  }, []);
+
+  // Scrolls the container so a cell is fully visible. Works from the row and column
+  // offsets, since the cell may not be rendered yet.
+  const revealCell = useCallback((cell: CellPosition) => {
+    if (!container || cell.row >= viewRows.length || cell.col >= columns.length) return;
+    // The sticky header row covers the top of the viewport.
+    const top = layout.bodyTop + rowOffsets[cell.row];
+    const bottom = layout.bodyTop + rowOffsets[cell.row + 1];
+    if (top < container.scrollTop + layout.bodyTop) container.scrollTop = top - layout.bodyTop;
+    else if (bottom > container.scrollTop + container.clientHeight) container.scrollTop = bottom - container.clientHeight;
+
+    // Frozen columns are always in view; the others scroll under them and the sticky row headers.
+    if (cell.col < frozenColumns) return;
+    const coveredWidth = ROW_HEADER_WIDTH + frozenWidth;
+    const left = ROW_HEADER_WIDTH + colOffsets[cell.col];
+    const right = ROW_HEADER_WIDTH + colOffsets[cell.col + 1];
+    if (left < container.scrollLeft + coveredWidth) container.scrollLeft = left - coveredWidth;
+    else if (right > container.scrollLeft + container.clientWidth) container.scrollLeft = right - container.clientWidth;
+  }, [container, viewRows.length, columns.length, layout.bodyTop, rowOffsets, colOffsets, frozenColumns, frozenWidth]);
+
+  // A merged block is selected through its top-left cell.
+  const moveActiveCell = useCallback((cell: CellPosition) => {
+    const target = snapToMerge(viewMerges, cell);
+    setActiveCell(target);
+    revealCell(target);
+  }, [viewMerges, setActiveCell, revealCell]);
+
+  const getTabCell = useCallback((cell: CellPosition, backwards: boolean) =>
+    getTabTarget(viewMerges, cell, viewRows.length, columns.length, backwards),
+  [viewMerges, viewRows.length, columns.length]);
+
+  const activeMatch = activeCell ? matches.findIndex(match => match.row === activeCell.row && match.col === activeCell.col) : -1;
+
+  // Ctrl+F opens the find bar of the table holding focus or, when no table does, the one clicked last.
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const wasLastClickedRef = useRef(false);
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      wasLastClickedRef.current = !!wrapperRef.current?.contains(e.target as Node);
+    };
+    const handleFindShortcut = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.shiftKey || e.altKey || e.key.toLowerCase() !== 'f') return;
+      const focusedTable = e.target instanceof Element ? e.target.closest('.table-wrapper') : null;
+      if (focusedTable ? focusedTable !== wrapperRef.current : !wasLastClickedRef.current) return;
+      e.preventDefault();
+      setFindOptions(prev => prev ?? DEFAULT_FIND_OPTIONS);
+      setFindFocusKey(key => key + 1);
+    };
+    document.addEventListener('mousedown', handleMouseDown, true);
+    window.addEventListener('keydown', handleFindShortcut);
+    return () => {
+      document.removeEventListener('mousedown', handleMouseDown, true);
+      window.removeEventListener('keydown', handleFindShortcut);
+    };
+  }, []);
+
+  const findNext = (backwards: boolean) => {
+    const match = getAdjacentMatch(matches, activeCell, backwards);
+    if (match) moveActiveCell(match);
+  };
+
+  // Replaces the active match, or just moves to the next one when the active cell isn't a match.
+  const replaceMatch = () => {
+    if (!findOptions || !findRegex) return;
+    if (activeMatch >= 0) {
+      const { row, col } = matches[activeMatch];
+      const dataRow = viewRows[row];
+      const { content, richText } = replaceCellMatches(store.getState()!.tableData[dataRow][col], findRegex, replacement, findOptions.useRegex);
+      actions.updateCellContent(dataRow, col, content, richText);
+    }
+    findNext(false);
+  };
+
+  const replaceAllMatches = () => {
+    if (!findOptions || !findRegex) return;
+    const { tableData } = store.getState()!;
+    actions.updateCellContents(matches.map(({ row, col }) => {
+      const dataRow = viewRows[row];
+      return { row: dataRow, col, ...replaceCellMatches(tableData[dataRow][col], findRegex, replacement, findOptions.useRegex) };
+    }));
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (editingCell || renamingColIndex !== null || !viewRows.length) return;
+      // Leave keys alone while typing in controls outside the grid, such as the filter bar.
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select')) return;
+
+      if (!activeCell && e.key.startsWith('Arrow')) {
+        moveActiveCell({ row: 0, col: 0 });
+        return;
+      }
+      if (!activeCell || !selection) return;
+
+      const origin = e.shiftKey ? selection.focus : activeCell;
+      // Arrows step off a merged block from its edge.
+      const { start, end } = findMerge(viewMerges, origin.row, origin.col) ?? { start: origin, end: origin };
+      let nextRow = origin.row;
+      let nextCol = origin.col;
+      let moved = false;
+
+      switch (e.key) {
+        case 'ArrowUp':
+          nextRow = Math.max(0, start.row - 1);
+          moved = true;
+          break;
+        case 'ArrowDown':
+          nextRow = Math.min(viewRows.length - 1, end.row + 1);
+          moved = true;
+          break;
+        case 'ArrowLeft':
+          nextCol = Math.max(0, start.col - 1);
+          moved = true;
+          break;
+        case 'ArrowRight':
+          nextCol = Math.min(columns.length - 1, end.col + 1);
+          moved = true;
+          break;
+        case 'Delete':
+        case 'Backspace':
+          e.preventDefault();
+          actions.clearRangeContent({ start: selection.anchor, end: selection.focus }, viewRows);
+          break;
+        case 'Escape':
+          setActiveCell(activeCell);
+          break;
+        case 'Enter':
+          e.preventDefault();
+          if (columns[activeCell.col].type === 'checkbox') {
+            const dataRow = viewRows[activeCell.row];
+            const { content } = store.getState()!.tableData[dataRow][activeCell.col];
+            actions.updateCellContent(dataRow, activeCell.col, isChecked(content) ? '' : 'true');
+          } else {
+            setEditingCell(activeCell);
+          }
+          break;
+        case 'Tab':
+          e.preventDefault();
+          moveActiveCell(getTabCell(activeCell, e.shiftKey));
+          break;
+      }
+      if (moved) {
+        e.preventDefault();
+        if (e.shiftKey) {
+          extendSelection({ row: nextRow, col: nextCol });
+          revealCell({ row: nextRow, col: nextCol });
+        } else {
+          moveActiveCell({ row: nextRow, col: nextCol });
+        }
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selection, editingCell, renamingColIndex, viewRows, viewMerges, columns, actions, moveActiveCell, getTabCell, revealCell]);
+
+  // Copied cells carry the style they show, including what they take from their column.
+  const getRangeCells = useCallback((range: CellRange) => {
+    const { start, end } = normalizeRange(range);
+    const { tableData, columns } = store.getState()!;
+    return viewRows.slice(start.row, end.row + 1).map(dataRow => tableData[dataRow].slice(start.col, end.col + 1)
+      .map((cell, offset) => ({ ...cell, ...resolveCellStyle(cell, columns[start.col + offset]) })));
+  }, [viewRows, store]);
+
+  const updateViewCellContent = useCallback((rowIndex: number, colIndex: number, content: string, richText?: RichTextSpan[]) => {
+    actions.updateCellContent(viewRows[rowIndex], colIndex, content, richText);
+  }, [viewRows, actions]);
+
+  // Keyboard copy/cut/paste go through the native clipboard events, which need no permission prompt.
+  useEffect(() => {
+    const isTextInput = (target: EventTarget | null) =>
+      target instanceof HTMLElement && !!target.closest('input, textarea, [contenteditable="true"]');
+
+    const handleCopy = (e: ClipboardEvent, isCut: boolean) => {
+      if (!selectedRange || editingCell || isTextInput(e.target) || !e.clipboardData) return;
+      e.preventDefault();
+      const cells = getRangeCells(selectedRange);
+      e.clipboardData.setData('text/plain', serializeClipboardText(cells));
+      e.clipboardData.setData('text/html', serializeHtmlTable(cells));
+      if (isCut) actions.clearRangeContent(selectedRange, viewRows);
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!selectedRange || editingCell || isTextInput(e.target) || !e.clipboardData) return;
+      e.preventDefault();
+      const grid = parseClipboardData(e.clipboardData.getData('text/plain'), e.clipboardData.getData('text/html'));
+      actions.pasteGrid(selectedRange, grid, viewRows);
+    };
+    const onCopy = (e: ClipboardEvent) => handleCopy(e, false);
+    const onCut = (e: ClipboardEvent) => handleCopy(e, true);
+
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCut);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCut);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [selectedRange?.start.row, selectedRange?.start.col, selectedRange?.end.row, selectedRange?.end.col, editingCell, viewRows, getRangeCells, actions]);
+
+  useEffect(() => {
+    if (!isDragSelecting) return;
+    const handleMouseUp = () => setIsDragSelecting(false);
+    document.body.style.userSelect = 'none';
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.body.style.userSelect = '';
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [isDragSelecting]);
+
+  useLayoutEffect(() => {
+    const table = tableRef.current;
+    const rowHeaders = table ? Array.from<HTMLElement>(table.querySelectorAll<HTMLElement>('[data-row-header]')) : [];
+    if (!table || !rowHeaders.length) return;
+    // The smallest difference, since a row can grow past its height while a cell in it is being edited.
+    const rowBorder = Math.min(...rowHeaders.map(header =>
+      (header.parentElement?.offsetHeight ?? 0) - rowHeights[viewRows[Number(header.dataset.rowHeader)]]
+    ));
+    const bodyTop = table.tBodies[0].offsetTop;
+    setLayout(prev => prev.bodyTop === bodyTop && prev.rowBorder === rowBorder ? prev : { bodyTop, rowBorder });
+  });
+
+  useLayoutEffect(() => {
+    if (!selectedRange || isSingleCellRange(selectedRange) || !tableRef.current) {
+      setSelectionRect(null);
+      return;
+    }
+    // The corners may be scrolled out and not rendered, so position the rectangle
+    // relative to any rendered cell using the row and column offsets. Frozen cells
+    // are offset by how far they stick, so they can't serve as the reference.
+    const reference = tableRef.current.querySelector<HTMLElement>('[data-row][data-col]:not(.frozen)')
+      ?? tableRef.current.querySelector<HTMLElement>('[data-row][data-col]');
+    if (!reference) {
+      setSelectionRect(null);
+      return;
+    }
+    const { start, end } = selectedRange;
+    const referenceRow = Number(reference.dataset.row);
+    const referenceCol = Number(reference.dataset.col);
+    const rowTop = (row: number) => reference.offsetTop + rowOffsets[row] - rowOffsets[referenceRow];
+    const colLeft = (col: number) => reference.offsetLeft + colOffsets[col] - colOffsets[referenceCol];
+    // Frozen columns stick in place, and the rest are hidden where they scroll under
+    // them, the row headers or the header row, so the rectangle is clipped to match.
+    const scrolledLeft = (col: number) => viewport.scrollLeft + ROW_HEADER_WIDTH + colOffsets[col];
+    const visibleLeft = (col: number) => Math.max(colLeft(col), scrolledLeft(Math.min(col, frozenColumns)));
+    const visibleRight = (col: number) => col < frozenColumns ? visibleLeft(col) + columns[col].width : colLeft(col + 1);
+    const top = Math.max(rowTop(start.row), viewport.scrollTop + layout.bodyTop);
+    const left = visibleLeft(start.col);
+    const bottom = rowTop(end.row + 1);
+    const right = visibleRight(end.col);
+    if (bottom <= top || right <= left) {
+      setSelectionRect(null);
+      return;
+    }
+    setSelectionRect({ top, left, width: right - left, height: bottom - top });
+  }, [
+    selectedRange?.start.row, selectedRange?.start.col, selectedRange?.end.row, selectedRange?.end.col, rowOffsets, colOffsets,
+    columns, frozenColumns, viewport.scrollTop, viewport.scrollLeft, layout.bodyTop,
+  ]);
+
+  const handleCellMouseDown = (e: React.MouseEvent, rowIndex: number, colIndex: number) => {
+    if (e.button !== 0) return;
+    if (e.shiftKey && activeCell) {
+      e.preventDefault();
+      extendSelection({ row: rowIndex, col: colIndex });
+      return;
+    }
+    setActiveCell({ row: rowIndex, col: colIndex });
+    setIsDragSelecting(true);
+  };
+
+  const handleCellMouseEnter = (rowIndex: number, colIndex: number) => {
+    if (isDragSelecting) extendSelection({ row: rowIndex, col: colIndex });
+  };
+
+  const selectRows = (e: React.MouseEvent, rowIndex: number) => {
+    const lastCol = columns.length - 1;
+    if (e.shiftKey && selection) {
+      setSelection({ anchor: { row: selection.anchor.row, col: 0 }, focus: { row: rowIndex, col: lastCol } });
+    } else {
+      setSelection({ anchor: { row: rowIndex, col: 0 }, focus: { row: rowIndex, col: lastCol } });
+    }
+  };
+
+  const selectColumns = (e: React.MouseEvent, colIndex: number) => {
+    const lastRow = viewRows.length - 1;
+    if (e.shiftKey && selection) {
+      setSelection({ anchor: { row: 0, col: selection.anchor.col }, focus: { row: lastRow, col: colIndex } });
+    } else {
+      setSelection({ anchor: { row: 0, col: colIndex }, focus: { row: lastRow, col: colIndex } });
+    }
+  };
+
+
+  const handleMouseMove = useCallback((e: MouseEvent) => {
+    if (!resizing) return;
+    if (resizing.type === 'col') {
+      const delta = e.clientX - resizing.startPos;
+      const newWidth = Math.max(resizing.startSize + delta, MIN_COL_WIDTH);
+      actions.updateColumnWidth(resizing.index, newWidth);
+    } else {
+      const delta = e.clientY - resizing.startPos;
+      const newHeight = Math.max(resizing.startSize + delta, MIN_ROW_HEIGHT);
+      actions.updateRowHeight(resizing.index, newHeight);
+    }
+  }, [resizing, actions]);
+
+  const handleMouseUp = useCallback(() => {
+    setResizing(null);
+    store.endBatch();
+  }, [store]);
+
+  useEffect(() => {
+    if (resizing) {
+      document.body.style.cursor = resizing.type === 'col' ? 'col-resize' : 'row-resize';
+      document.body.style.userSelect = 'none';
+      window.addEventListener('mousemove', handleMouseMove);
+      window.addEventListener('mouseup', handleMouseUp);
+    } else {
+      document.body.style.cursor = '';
+      document.body.style.userSelect = '';
+    }
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [resizing, handleMouseMove, handleMouseUp]);
+
+  const handleResizeStart = (e: React.MouseEvent, type: 'col' | 'row', index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    store.beginBatch();
+    if (type === 'col') {
+      setResizing({ type, index, startPos: e.clientX, startSize: columns[index].width });
+    } else {
+      const dataRow = viewRows[index];
+      setResizing({ type, index: dataRow, startPos: e.clientY, startSize: rowHeights[dataRow] });
+    }
+  };
+
+  // Columns and rows are reordered by dragging their headers. `dropIndex` is the
+  // position the dragged column/row will be inserted before (in view rows for rows).
+  const handleDragStart = (e: React.MouseEvent, type: 'col' | 'row', index: number) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('.resize-handle, button, input')) return;
+    if (type === 'row' && isViewSorted) return;
+    setDragStart({ type, index, x: e.clientX, y: e.clientY });
+  };
+
+  const getDropTarget = (type: 'col' | 'row', e: MouseEvent) => {
+    const table = tableRef.current;
+    if (!table) return null;
+    const headers = Array.from<HTMLElement>(table.querySelectorAll<HTMLElement>(type === 'col' ? '[data-col-header]' : '[data-row-header]'));
+    if (!headers.length) return null;
+    // Only the headers in view are rendered, so read each one's index from its data attribute.
+    const getIndex = (header: HTMLElement) => Number(type === 'col' ? header.dataset.colHeader : header.dataset.rowHeader);
+    const target = headers.find(header => {
+      const rect = header.getBoundingClientRect();
+      return type === 'col' ? e.clientX < rect.left + rect.width / 2 : e.clientY < rect.top + rect.height / 2;
+    });
+    const isAfterLast = !target;
+    const header = target ?? headers[headers.length - 1];
+    const dropIndex = getIndex(header) + (isAfterLast ? 1 : 0);
+    const indicator = type === 'col'
+      ? { top: 0, left: header.offsetLeft + (isAfterLast ? header.offsetWidth : 0) - 1, width: 2, height: table.offsetHeight }
+      : { top: header.offsetTop + (isAfterLast ? header.offsetHeight : 0) - 1, left: 0, width: table.offsetWidth, height: 2 };
+    return { dropIndex, indicator };
+  };
+
+  const completeDrag = (type: 'col' | 'row', fromIndex: number, dropIndex: number) => {
+    if (type === 'col') {
+      actions.moveColumn(fromIndex, dropIndex > fromIndex ? dropIndex - 1 : dropIndex);
+      return;
+    }
+    // Rows are dragged in view rows; map the drop position back to the table data.
+    const from = viewRows[fromIndex];
+    const before = dropIndex < viewRows.length ? viewRows[dropIndex] : viewRows[viewRows.length - 1] + 1;
+    actions.moveRow(from, before > from ? before - 1 : before);
+  };
+
+  useEffect(() => {
+    if (!dragStart) return;
+    const handleMouseMove = (e: MouseEvent) => {
+      if (!drag && Math.hypot(e.clientX - dragStart.x, e.clientY - dragStart.y) < DRAG_THRESHOLD) return;
+      const target = getDropTarget(dragStart.type, e);
+      if (!target) return;
+      setDrag({ type: dragStart.type, fromIndex: dragStart.index, dropIndex: target.dropIndex });
+      setDropIndicator(target.indicator);
+    };
+    const handleMouseUp = () => {
+      if (drag) {
+        // The mouseup is followed by a click on the header, which would otherwise select it.
+        suppressClickRef.current = true;
+        setTimeout(() => { suppressClickRef.current = false; }, 0);
+        completeDrag(drag.type, drag.fromIndex, drag.dropIndex);
+        setActiveCell(null);
+      }
+      setDragStart(null);
+      setDrag(null);
+      setDropIndicator(null);
+    };
+    if (drag) {
+      document.body.style.cursor = 'grabbing';
+      document.body.style.userSelect = 'none';
+    }
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.body.style.cursor = '';
+      document.body.style.userSelect = '';
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [dragStart, drag, viewRows, actions]);
+
+  // An edit session (including multi-select toggles) is recorded as one undo step.
+  useEffect(() => {
+    if (!editingCell) return;
+    store.beginBatch();
+    return () => store.endBatch();
+  }, [editingCell, store]);
+
+  // Undo/redo can shrink the table underneath the current selection.
+  useEffect(() => {
+    const isOutOfBounds = (cell: { row: number; col: number } | null) =>
+      !!cell && (cell.row >= viewRows.length || cell.col >= columns.length);
+    if (isOutOfBounds(activeCell)) setActiveCell(null);
+    if (isOutOfBounds(editingCell)) setEditingCell(null);
+  }, [activeCell, editingCell, viewRows.length, columns.length]);
+
+  useEffect(() => {
+    // The bars above the table act on the active cell, so clicking them keeps it.
+    const handleOutsideClick = (event: MouseEvent) => {
+      if (!(event.target as HTMLElement).closest('td, th, .context-menu, .find-bar, .filter-bar, .sort-bar')) {
+        setActiveCell(null);
+      }
+    };
+    document.addEventListener('mousedown', handleOutsideClick);
+    return () => document.removeEventListener('mousedown', handleOutsideClick);
+  }, []);
+
+
+  const handleOpenContextMenu = (e: React.MouseEvent, colIndex: number) => {
+    e.preventDefault();
+    setCellContextMenu(null);
+    setRowContextMenu(null);
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setContextMenu({ x: rect.left, y: rect.bottom + 5, colIndex });
+  };
+
+  const handleOpenRowContextMenu = (e: React.MouseEvent, rowIndex: number) => {
+    e.preventDefault();
+    setContextMenu(null);
+    setCellContextMenu(null);
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setRowContextMenu({ x: rect.right + 5, y: rect.top, rowIndex: viewRows[rowIndex] });
+  };
+
+  const handleOpenCellContextMenu = (e: React.MouseEvent, rowIndex: number, colIndex: number) => {
+    e.preventDefault();
+    if (!selectedRange || !isCellInRange(selectedRange, rowIndex, colIndex)) {
+      setActiveCell({ row: rowIndex, col: colIndex });
+    }
+    setContextMenu(null);
+    setRowContextMenu(null);
+    setCellContextMenu({ x: e.clientX, y: e.clientY, rowIndex, colIndex });
+  }
+
+  const sortByColumn = (columnId: string, direction: SortDirection) => {
+    setSortKeys([{ columnId, direction }]);
+  };
+
+  const reorderRows = (keys: SortKey[]) => {
+    actions.sortRows(keys);
+    setSortKeys([]);
+    setActiveCell(null);
+  };
+
+  const addFilter = (columnId: string) => {
+    const filter: ColumnFilter = { id: crypto.randomUUID(), columnId, operator: 'contains', value: '' };
+    setFilters(prev => [...prev, filter]);
+    setFocusFilterId(filter.id);
+  };
+
+  const getColumnMenuItems = (colIndex: number): MenuItem[] => {
+    const column = columns[colIndex];
+
+    return withHostItems([
+      { type: 'item', icon: <RenameIcon />, label: 'Rename', action: () => setRenamingColIndex(colIndex) },
+      createPropertyTypeSubMenu(column.type, (type) => actions.setColumnType(colIndex, type)),
+      ...(column.type === 'number'
+        ? [createNumberFormatSubMenu(column.numberFormat ?? 'number', (format) => actions.setColumnNumberFormat(colIndex, format))]
+        : []),
+      { type: 'toggle', icon: <HeaderColumnIcon />, label: 'Header column', checked: column.isHeader, action: () => actions.toggleHeaderColumn(colIndex) },
+      createCellStyleSubMenu(getColumnStyle(column), (style) => actions.setColumnStyle(colIndex, style), getDefaultAlign(column)),
+      { type: 'item', icon: <ConditionalFormatIcon />, label: 'Conditional formatting', action: () => setFormattingColumnId(column.id) },
+      {
+        type: 'toggle', icon: <FreezeColumnsIcon />, label: 'Freeze up to this column', checked: frozenColumns === colIndex + 1,
+        action: () => actions.freezeColumns(frozenColumns === colIndex + 1 ? 0 : colIndex + 1),
+      },
+      { type: 'divider' },
+      { type: 'item', icon: <SortAscIcon />, label: 'Sort ascending', action: () => sortByColumn(column.id, 'asc') },
+      { type: 'item', icon: <SortDescIcon />, label: 'Sort descending', action: () => sortByColumn(column.id, 'desc') },
+      { type: 'item', icon: <SortIcon />, label: 'Sort…', action: () => setIsSortDialogOpen(true) },
+      { type: 'item', icon: <FilterIcon />, label: 'Filter', action: () => addFilter(column.id) },
+      { type: 'divider' },
+      { type: 'item', icon: <InsertLeftIcon />, label: 'Insert left', action: () => actions.addColumn('left', colIndex) },
+      { type: 'item', icon: <InsertRightIcon />, label: 'Insert right', action: () => actions.addColumn('right', colIndex) },
+      { type: 'item', icon: <DuplicateIcon />, label: 'Duplicate', action: () => actions.duplicateColumn(colIndex) },
+      { type: 'divider' },
+      { type: 'item', icon: <ClearIcon />, label: 'Clear contents', action: () => actions.clearColumnContent(colIndex) },
+      { type: 'item', icon: <DeleteIcon />, label: 'Delete', action: () => actions.deleteColumn(colIndex) },
+    ], props.getHostColumnMenuItems?.(column, colIndex));
+  };
+
+  const getRowMenuItems = (rowIndex: number): MenuItem[] => {
+    const numRows = numDataRows;
+
+    const runAndDeselect = (action: () => void) => () => {
+      action();
+      setActiveCell(null);
+    };
+
+    return [
+      { type: 'item', icon: <InsertAboveIcon />, label: 'Insert above', action: runAndDeselect(() => actions.insertRow('above', rowIndex)) },
+      { type: 'item', icon: <InsertBelowIcon />, label: 'Insert below', action: runAndDeselect(() => actions.insertRow('below', rowIndex)) },
+      { type: 'item', icon: <DuplicateIcon />, label: 'Duplicate', action: runAndDeselect(() => actions.duplicateRow(rowIndex)) },
+      { type: 'divider' },
+      { type: 'item', icon: <MoveUpIcon />, label: 'Move up', action: runAndDeselect(() => actions.moveRow(rowIndex, rowIndex - 1)), disabled: isViewSorted || rowIndex === 0 },
+      { type: 'item', icon: <MoveDownIcon />, label: 'Move down', action: runAndDeselect(() => actions.moveRow(rowIndex, rowIndex + 1)), disabled: isViewSorted || rowIndex === numRows - 1 },
+      { type: 'divider' },
+      { type: 'item', icon: <ClearIcon />, label: 'Clear contents', action: () => actions.clearRowContent(rowIndex) },
+      { type: 'item', icon: <DeleteIcon />, label: 'Delete', action: runAndDeselect(() => actions.deleteRow(rowIndex)), disabled: numRows <= 1 },
+    ];
+  };
+
+  const getCellMenuItems = (rowIndex: number, colIndex: number): MenuItem[] => {
+    const dataRow = viewRows[rowIndex];
+    const cell = store.getState()!.tableData[dataRow][colIndex];
+    const range: CellRange = selectedRange && isCellInRange(selectedRange, rowIndex, colIndex)
+      ? selectedRange
+      : { start: { row: rowIndex, col: colIndex }, end: { row: rowIndex, col: colIndex } };
+
+    // The clipboard API can be refused, e.g. when permission is denied or the page isn't served securely.
+    const withClipboard = (action: () => Promise<void>, shortcut: string) => async () => {
+      try {
+        await action();
+      } catch (error) {
+        console.error(error);
+        setClipboardError(`The browser didn't allow access to the clipboard. Use ${shortcut} instead.`);
+      }
+    };
+    const handleCut = withClipboard(async () => { await writeClipboard(getRangeCells(range)); actions.clearRangeContent(range, viewRows); }, 'Ctrl+X');
+    const handleCopy = withClipboard(() => writeClipboard(getRangeCells(range)), 'Ctrl+C');
+    const handlePaste = withClipboard(async () => { actions.pasteGrid(range, await readClipboard(), viewRows); }, 'Ctrl+V');
+    const handleClear = () => { actions.clearRangeContent(range, viewRows); };
+    const cellStyle = resolveCellStyle(cell, columns[colIndex]);
+    const handleCopyStyle = () => { props.setCopiedStyle(cellStyle); };
+    const handlePasteStyle = () => { if (props.copiedStyle) actions.updateRangeStyles(range, props.copiedStyle, viewRows); };
+    
+    const handleStyleChange = (styles: Partial<CellStyle>) => actions.updateRangeStyles(range, styles, viewRows);
+    const normalizedRange = normalizeRange(range);
+    const { start, end } = normalizedRange;
+    const hasOwnStyles = viewRows.slice(start.row, end.row + 1)
+      .some(row => store.getState()!.tableData[row].slice(start.col, end.col + 1).some(hasOwnStyle));
+    // Rows that sorting or filtering has separated can't be merged into one block.
+    const handleMerge = () => {
+      actions.mergeCells(range, viewRows);
+      setActiveCell(normalizedRange.start);
+    };
+    const canMerge = !isSingleCellRange(normalizedRange) && !!toDataRange(normalizedRange, viewRows);
+    const hasMerges = viewMerges.some(merge => rangesIntersect(merge, normalizedRange));
+    const unmergeItem: MenuItem = { type: 'item', icon: <UnmergeCellsIcon />, label: 'Unmerge cells', action: () => actions.unmergeCells(range, viewRows) };
+
+    return withHostItems([
+      ...createClipboardMenuItems(handleCut, handleCopy, handlePaste),
+      { type: 'divider' },
+      ...createCopyPasteStyleMenuItems(handleCopyStyle, handlePasteStyle, !props.copiedStyle),
+      createCellStyleSubMenu(cellStyle, handleStyleChange, getDefaultAlign(columns[colIndex])),
+      {
+        type: 'item', icon: <ResetStyleIcon />, label: 'Reset to column style',
+        action: () => actions.resetRangeStyles(range, viewRows), disabled: !hasOwnStyles,
+      },
+      { type: 'divider' },
+      { type: 'item', icon: <MergeCellsIcon />, label: 'Merge cells', action: handleMerge, disabled: !canMerge },
+      ...(hasMerges ? [unmergeItem] : []),
+      { type: 'divider' },
+      { type: 'item', icon: <ClearIcon />, label: 'Clear content', action: handleClear },
+    ], props.getHostCellMenuItems?.(cell, { row: dataRow, col: colIndex }));
+  };
+
+
+  const activeCellId = activeCell ? store.getState()?.tableData[viewRows[activeCell.row]]?.[activeCell.col]?.id ?? null : null;
+  const { onActiveCellChange } = props;
+  useEffect(() => {
+    onActiveCellChange?.(activeCellId);
+  }, [activeCellId, onActiveCellChange]);
+
+  const remoteCursorsByCell = useMemo(() => {
+    const cursors = new Map<string, RemoteCursor[]>();
+    props.remoteCursors?.forEach(cursor => {
+      if (cursor.cellId) cursors.set(cursor.cellId, [...(cursors.get(cursor.cellId) ?? []), cursor]);
+    });
+    return cursors;
+  }, [props.remoteCursors]);
+
+  const tableData = store.getState()?.tableData;
+  if (!tableData || !tableLayout || !columns.length) return null;
+
+  // The cell being edited and the column being renamed stay rendered while scrolled out, so their inputs keep focus.
+  // Merged blocks are rendered whole, so a cell spanning rows or columns never reaches into a gap.
+  const rowItems = getVirtualItems(
+    rowOffsets, viewport.scrollTop - layout.bodyTop, viewport.scrollTop + viewport.height - layout.bodyTop, ROW_OVERSCAN,
+    [editingCell?.row], viewMerges.map(({ start, end }) => [start.row, end.row])
+  );
+  // Frozen columns are always rendered, and the columns scrolled under them needn't be.
+  const colItems = getVirtualItems(
+    colOffsets, viewport.scrollLeft + frozenWidth, viewport.scrollLeft + viewport.width - ROW_HEADER_WIDTH, COL_OVERSCAN,
+    [editingCell?.col, renamingColIndex, ...columns.slice(0, frozenColumns).map((_, index) => index)],
+    viewMerges.map(({ start, end }) => [start.col, end.col])
+  );
+  const frozenClassName = (colIndex: number) =>
+    colIndex < frozenColumns ? `frozen ${colIndex === frozenColumns - 1 ? 'frozen-edge' : ''}` : '';
+
+  return (
+    <div className="notion-like-table table-wrapper" ref={wrapperRef}>
+      {isViewSorted && (
+        <div className="sort-bar">
+          <SortIcon />
+          <span>
+            Sorted by{' '}
+            {sortKeys
+              .map(key => columns.find(col => col.id === key.columnId))
+              .map((column, index) => column && `${column.name} (${sortKeys[index].direction === 'asc' ? 'ascending' : 'descending'})`)
+              .filter(Boolean)
+              .join(', then ')}
+          </span>
+          <button onClick={() => setIsSortDialogOpen(true)} className="sort-bar-button">Edit</button>
+          <button onClick={() => reorderRows(sortKeys)} className="sort-bar-button">Reorder rows</button>
+          <button onClick={() => setSortKeys([])} className="sort-bar-button">Clear</button>
+        </div>
+      )}
+      {filters.length > 0 && (
+        <FilterBar
+          columns={columns}
+          filters={filters}
+          conjunction={filterConjunction}
+          visibleRows={viewRows.length}
+          totalRows={numDataRows}
+          focusFilterId={focusFilterId}
+          onFiltersChange={setFilters}
+          onConjunctionChange={setFilterConjunction}
+          onAddFilter={() => addFilter(columns[0].id)}
+        />
+      )}
+      {findOptions && (
+        <FindBar
+          columns={columns}
+          options={findOptions}
+          replacement={replacement}
+          isInvalid={!!findOptions.query && !findRegex}
+          matchCount={matches.length}
+          currentMatch={activeMatch >= 0 ? activeMatch : null}
+          activeColumnId={activeCell ? columns[activeCell.col]?.id ?? null : null}
+          focusKey={findFocusKey}
+          onOptionsChange={setFindOptions}
+          onReplacementChange={setReplacement}
+          onFindNext={findNext}
+          onReplace={replaceMatch}
+          onReplaceAll={replaceAllMatches}
+          onClose={() => setFindOptions(null)}
+        />
+      )}
+      <div className="table-container" ref={containerRef}>
+        <table className="notion-table" ref={tableRef}>
+          <colgroup>
+            <col style={{ width: `${ROW_HEADER_WIDTH}px` }} />
+            {colItems.map(item => item.type === 'gap'
+              ? <col key={item.key} style={{ width: `${item.size}px` }} />
+              : <col key={columns[item.index].id} style={{ width: `${columns[item.index].width}px` }} />
+            )}
+            <col />
+          </colgroup>
+          <thead>
+            <tr>
+              <th className="table-corner-cell">
+                <div className="table-add-button-wrapper">
+                  <button onClick={actions.addRow} className="add-button"><PlusIcon /></button>
+                </div>
+              </th>
+              {colItems.map(item => {
+                if (item.type === 'gap') return <th key={item.key} className="table-spacer-cell" />;
+                const colIndex = item.index;
+                const column = columns[colIndex];
+                const TypeIcon = PROPERTY_TYPE_ICONS[column.type];
+                const isColumnSelected = !!selectedRange && colIndex >= selectedRange.start.col && colIndex <= selectedRange.end.col;
+                const sortKey = sortKeys.find(key => key.columnId === column.id);
+                const isFiltered = activeFilters.some(filter => filter.columnId === column.id);
+                return (
+                  <th
+                    key={column.id}
+                    data-col-header={colIndex}
+                    className={`table-header-cell ${isColumnSelected ? 'selected' : ''} ${drag?.type === 'col' && drag.fromIndex === colIndex ? 'dragging' : ''} ${frozenClassName(colIndex)}`}
+                    style={colIndex < frozenColumns ? { left: `${ROW_HEADER_WIDTH + colOffsets[colIndex]}px` } : undefined}
+                    onMouseDown={(e) => handleDragStart(e, 'col', colIndex)}
+                    onClick={(e) => {
+                      if (suppressClickRef.current || (e.target as HTMLElement).closest('.resize-handle, button, input')) return;
+                      selectColumns(e, colIndex);
+                    }}
+                    onDoubleClick={() => setRenamingColIndex(colIndex)}
+                  >
+                    <div className="table-header-cell-content">
+                      {renamingColIndex === colIndex ? (
+                        <ColumnNameInput
+                          name={column.name}
+                          onCommit={(name) => { actions.renameColumn(colIndex, name); setRenamingColIndex(null); }}
+                          onCancel={() => setRenamingColIndex(null)}
+                        />
+                      ) : (
+                        <span className="table-header-label" title={column.name}>
+                          <TypeIcon /> {column.name}
+                          {isFiltered && <span className="table-header-filter-indicator" title="Filtered"><FilterIcon /></span>}
+                          {sortKey && (
+                            <span className="table-header-sort-indicator">
+                              {sortKey.direction === 'asc' ? <SortAscIcon /> : <SortDescIcon />}
+                            </span>
+                          )}
+                        </span>
+                      )}
+                      <button onClick={(e) => { e.stopPropagation(); handleOpenContextMenu(e, colIndex); }} className="table-header-menu-button">
+                        <MenuIcon />
+                      </button>
+                    </div>
+                    <div className="resize-handle resize-handle-col" onMouseDown={(e) => handleResizeStart(e, 'col', colIndex)} />
+                  </th>
+                );
+              })}
+              <th className="table-col-add-cell">
+                <div className="table-add-button-wrapper">
+                  <button onClick={() => actions.addColumn('right', columns.length - 1)} className="add-button">
+                    <PlusIcon />
+                  </button>
+                </div>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {rowItems.map(item => {
+              if (item.type === 'gap') {
+                return (
+                  <tr key={item.key}>
+                    <td colSpan={colItems.length + 2} className="table-spacer-cell" style={{ height: `${item.size}px` }} />
+                  </tr>
+                );
+              }
+              const rowIndex = item.index;
+              const dataRow = viewRows[rowIndex];
+              return (
+                <tr key={tableLayout.rowOrder[dataRow]}>
+                  <td
+                    data-row-header={rowIndex}
+                    className={`table-row-header-cell ${selectedRange && rowIndex >= selectedRange.start.row && rowIndex <= selectedRange.end.row ? 'selected' : ''} ${drag?.type === 'row' && drag.fromIndex === rowIndex ? 'dragging' : ''}`}
+                    style={{ height: `${rowHeights[dataRow]}px` }}
+                    onMouseDown={(e) => handleDragStart(e, 'row', rowIndex)}
+                    onClick={(e) => {
+                      if (suppressClickRef.current || (e.target as HTMLElement).closest('.resize-handle')) return;
+                      selectRows(e, rowIndex);
+                    }}
+                    onContextMenu={(e) => handleOpenRowContextMenu(e, rowIndex)}
+                  >
+                    <div className="table-row-header-content">{rowIndex + 1}</div>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleOpenRowContextMenu(e, rowIndex); }}
+                      className="table-row-menu-button"
+                    >
+                      <MenuIcon />
+                    </button>
+                    <div className="resize-handle resize-handle-row" onMouseDown={(e) => handleResizeStart(e, 'row', rowIndex)} />
+                  </td>
+                  {colItems.map(colItem => {
+                    if (colItem.type === 'gap') return <td key={colItem.key} className="table-spacer-cell" />;
+                    const colIndex = colItem.index;
+                    const merge = findMerge(viewMerges, rowIndex, colIndex);
+                    // Cells under a merged block are covered by its top-left cell.
+                    if (merge && (merge.start.row !== rowIndex || merge.start.col !== colIndex)) return null;
+                    // Only the cell's id is read here; `tableLayout` changes whenever the ids do.
+                    const cellId = tableData[dataRow][colIndex].id;
+                    const mergedRows = merge ? viewRows.slice(merge.start.row, merge.end.row + 1) : [dataRow];
+                    const lastCol = merge ? merge.end.col : colIndex;
+                    // A merged block reaching past the frozen columns scrolls with the rest.
+                    const isFrozen = lastCol < frozenColumns;
+                    return (
+                      <EditableCell
+                        key={cellId}
+                        store={store}
+                        cellId={cellId}
+                        dataRow={dataRow}
+                        rowIndex={rowIndex}
+                        colIndex={colIndex}
+                        isEditing={editingCell?.row === rowIndex && editingCell?.col === colIndex}
+                        isActive={!editingCell && activeCell?.row === rowIndex && activeCell?.col === colIndex}
+                        isSelected={!!selectedRange && isCellInRange(selectedRange, rowIndex, colIndex)}
+                        isFindMatch={matchKeys.has(cellKey(rowIndex, colIndex))}
+                        isHeader={columns[colIndex].isHeader}
+                        remoteCursors={remoteCursorsByCell.get(cellId)}
+                        column={columns[colIndex]}
+                        colorScaleRange={colorScaleRanges[columns[colIndex].id]}
+                        rowHeight={mergedRows.reduce((height, row) => height + rowHeights[row], 0)}
+                        rowSpan={mergedRows.length}
+                        colSpan={merge ? merge.end.col - merge.start.col + 1 : 1}
+                        frozenLeft={isFrozen ? ROW_HEADER_WIDTH + colOffsets[colIndex] : undefined}
+                        isFrozenEdge={isFrozen && lastCol === frozenColumns - 1}
+                        numRows={viewRows.length}
+                        getTabTarget={getTabCell}
+                        updateCellContent={updateViewCellContent}
+                        updateColumnOptions={actions.updateColumnOptions}
+                        setEditingCell={setEditingCell}
+                        setActiveCell={moveActiveCell}
+                        onContextMenu={handleOpenCellContextMenu}
+                        onMouseDown={handleCellMouseDown}
+                        onMouseEnter={handleCellMouseEnter}
+                        onResizeStart={handleResizeStart}
+                      />
+                    );
+                  })}
+                  <td className="table-cell"></td>
+                </tr>
+              );
+            })}
+            <tr>
+              <td className="table-footer-cell"></td>
+              <td colSpan={colItems.length + 1} className="table-row-add-cell">
+                <button onClick={actions.addRow} className="table-footer-add-button">
+                  <PlusIcon /> <span>New</span>
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+        {selectionRect && <div className="selection-rect" style={selectionRect} />}
+        {dropIndicator && <div className="drop-indicator" style={dropIndicator} />}
+      </div>
+      
+      {contextMenu && (
+        <ContextMenu 
+          x={contextMenu.x} 
+          y={contextMenu.y} 
+          items={getColumnMenuItems(contextMenu.colIndex)}
+          onClose={() => setContextMenu(null)}
+          menuClassName="context-menu-md"
+        />
+      )}
+      {rowContextMenu && (
+        <ContextMenu
+          x={rowContextMenu.x}
+          y={rowContextMenu.y}
+          items={getRowMenuItems(rowContextMenu.rowIndex)}
+          onClose={() => setRowContextMenu(null)}
+          menuClassName="context-menu-sm"
+        />
+      )}
+      {formattingColumn && (
+        <ConditionalFormattingDialog
+          column={formattingColumn}
+          onSave={(rules) => {
+            actions.setColumnFormatRules(columns.indexOf(formattingColumn), rules);
+            setFormattingColumnId(null);
+          }}
+          onClose={() => setFormattingColumnId(null)}
+        />
+      )}
+      {isSortDialogOpen && (
+        <SortDialog
+          columns={columns}
+          sortKeys={sortKeys}
+          onSortView={(keys) => { setSortKeys(keys); setIsSortDialogOpen(false); }}
+          onReorderRows={(keys) => { reorderRows(keys); setIsSortDialogOpen(false); }}
+          onClose={() => setIsSortDialogOpen(false)}
+        />
+      )}
+      {cellContextMenu && (
+        <ContextMenu
+          x={cellContextMenu.x}
+          y={cellContextMenu.y}
+          items={getCellMenuItems(cellContextMenu.rowIndex, cellContextMenu.colIndex)}
+          onClose={() => setCellContextMenu(null)}
+          menuClassName="context-menu-sm"
+        />
+      )}
+      {clipboardError && (
+        <Dialog
+          title="Can't use the clipboard"
+          onClose={() => setClipboardError(null)}
+          actions={<button onClick={() => setClipboardError(null)} className="button load-button">OK</button>}
+        >
+          <div className="dialog-errors"><p>{clipboardError}</p></div>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default TableGrid;
\ No newline at end of file
@@ -1,8 +1,9 @@
 import React from 'react';
-import { Cell, CellStyle, MenuItem } from '../types';
-import { COLORS } from '../constants';
+import { CellStyle, ColumnType, MenuItem, NumberFormat, TextAlign } from '../types';
+import { COLORS, NUMBER_FORMATS, PROPERTY_TYPES } from '../constants';
 import {
-  CutIcon, CopyIcon, PasteIcon, StyleIcon, FontSizeIcon, FontWeightIcon,
+  CutIcon, CopyIcon, PasteIcon, StyleIcon, FontSizeIcon, FontWeightIcon, TextAlignIcon,
+  CheckIcon, PropertyTypeIcon, NumberTypeIcon, PROPERTY_TYPE_ICONS,
 } from './icons';
 
 // --- Color Menu Generation ---
@@ -31,7 +32,48 @@ export const createColorSubMenu = (
   };
 };
 
-// --- Cell-Specific Style Menu Generation ---
+// --- Column Property Menu Generation ---
+
+export const createPropertyTypeSubMenu = (
+  currentType: ColumnType,
+  onSelect: (type: ColumnType) => void
+): MenuItem => ({
+  type: 'submenu',
+  icon: <PropertyTypeIcon />,
+  label: 'Property type',
+  subMenu: PROPERTY_TYPES.map(({ type, label }) => {
+    const Icon = PROPERTY_TYPE_ICONS[type];
+    return {
+      type: 'item',
+      icon: type === currentType ? <CheckIcon /> : <Icon />,
+      label,
+      action: () => onSelect(type),
+    };
+  }),
+});
+
+export const createNumberFormatSubMenu = (
+  currentFormat: NumberFormat,
+  onSelect: (format: NumberFormat) => void
+): MenuItem => ({
+  type: 'submenu',
+  icon: <NumberTypeIcon />,
+  label: 'Number format',
+  subMenu: NUMBER_FORMATS.map(({ format, label }) => ({
+    type: 'item',
+    icon: format === currentFormat ? <CheckIcon /> : undefined,
+    label,
+    action: () => onSelect(format),
+  })),
+});
+
+// --- Style Menu Generation ---
+
+const TEXT_ALIGNMENTS: { align: TextAlign; label: string }[] = [
+  { align: 'left', label: 'Left' },
+  { align: 'center', label: 'Center' },
+  { align: 'right', label: 'Right' },
+];
 
 const FontSizeMenuItem: React.FC<{ value: number; onChange: (size: number) => void }> = ({ value, onChange }) => (
   <div className="menu-item" onClick={(e) => e.stopPropagation()}>
@@ -51,9 +93,11 @@ const FontSizeMenuItem: React.FC<{ value: number; onChange: (size: number) => vo
   </div>
 );
 
+/** Style items for a cell or a column's default style. `style` is the current style, inherited values included. */
 export const createCellStyleSubMenu = (
-  cell: Cell,
-  onStyleChange: (styles: Partial<CellStyle>) => void
+  style: CellStyle,
+  onStyleChange: (styles: Partial<CellStyle>) => void,
+  defaultAlign: TextAlign = 'left'
 ): MenuItem => ({
   type: 'submenu',
   icon: <StyleIcon />,
@@ -62,13 +106,24 @@ export const createCellStyleSubMenu = (
     createColorSubMenu('text', (color) => onStyleChange({ color })),
     createColorSubMenu('background', (backgroundColor) => onStyleChange({ backgroundColor })),
     { type: 'divider' },
-    { type: 'custom', content: <FontSizeMenuItem value={cell.fontSize} onChange={(fontSize) => onStyleChange({ fontSize })} /> },
+    { type: 'custom', content: <FontSizeMenuItem value={style.fontSize} onChange={(fontSize) => onStyleChange({ fontSize })} /> },
     {
       type: 'toggle',
       icon: <FontWeightIcon />,
       label: 'Bold',
-      checked: cell.fontWeight === 'bold',
-      action: () => onStyleChange({ fontWeight: cell.fontWeight === 'bold' ? 'normal' : 'bold' }),
+      checked: style.fontWeight === 'bold',
+      action: () => onStyleChange({ fontWeight: style.fontWeight === 'bold' ? 'normal' : 'bold' }),
+    },
+    {
+      type: 'submenu',
+      icon: <TextAlignIcon />,
+      label: 'Alignment',
+      subMenu: TEXT_ALIGNMENTS.map(({ align, label }) => ({
+        type: 'item',
+        icon: align === (style.textAlign ?? defaultAlign) ? <CheckIcon /> : undefined,
+        label,
+        action: () => onStyleChange({ textAlign: align }),
+      })),
     },
   ],
 });
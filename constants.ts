@@ -1,4 +1,4 @@
-import { CellStyle } from './types';
+import { CellStyle, ColumnType, FilterOperator, NumberFormat } from './types';
 
 export const COLORS = {
   text: [
@@ -32,4 +32,46 @@ export const DEFAULT_CELL_STYLE: CellStyle = {
   backgroundColor: 'transparent',
   fontSize: 14,
   fontWeight: 'normal',
-};
\ No newline at end of file
+};
+export const PROPERTY_TYPES: { type: ColumnType; label: string }[] = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'checkbox', label: 'Checkbox' },
+  { type: 'select', label: 'Select' },
+  { type: 'multiSelect', label: 'Multi-select' },
+  { type: 'url', label: 'URL' },
+];
+
+export const NUMBER_FORMATS: { format: NumberFormat; label: string }[] = [
+  { format: 'number', label: 'Number' },
+  { format: 'commas', label: 'Number with commas' },
+  { format: 'percent', label: 'Percent' },
+  { format: 'dollar', label: 'US dollar' },
+];
+
+export const FILTER_OPERATORS: { operator: FilterOperator; label: string; needsValue: boolean }[] = [
+  { operator: 'contains', label: 'Contains', needsValue: true },
+  { operator: 'equals', label: 'Is', needsValue: true },
+  { operator: 'isEmpty', label: 'Is empty', needsValue: false },
+  { operator: 'isNotEmpty', label: 'Is not empty', needsValue: false },
+  { operator: 'greaterThan', label: '>', needsValue: true },
+  { operator: 'greaterThanOrEqual', label: '≥', needsValue: true },
+  { operator: 'lessThan', label: '<', needsValue: true },
+  { operator: 'lessThanOrEqual', label: '≤', needsValue: true },
+  { operator: 'regex', label: 'Matches regex', needsValue: true },
+];
+
+export const SELECT_OPTION_COLORS = COLORS.background
+  .filter(c => c.backgroundColor !== 'transparent')
+  .map(c => c.backgroundColor);
+
+// Outline colors for collaborators' selected cells; the default and gray text colors are left out.
+export const COLLABORATOR_COLORS = COLORS.text.slice(2).map(({ color }) => color);
+
+export const CSV_DELIMITERS: { label: string; value: string }[] = [
+  { label: 'Comma (,)', value: ',' },
+  { label: 'Semicolon (;)', value: ';' },
+  { label: 'Tab', value: '\t' },
+  { label: 'Pipe (|)', value: '|' },
+];
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { TableStore } from '../utils/tableStore';
+import { TableActions } from '../utils/tableActions';
+import { CollaborationClient, CollaborationOptions, CollaborationSnapshot, createCollaborationClient } from '../utils/collaboration';
+
+const DISCONNECTED: CollaborationSnapshot = { status: 'disconnected', peers: [], hasUnsentChanges: false };
+const subscribeNothing = () => () => {};
+const getDisconnected = () => DISCONNECTED;
+
+/**
+ * Shares the table with a room on the relay server while `options` is set.
+ * Returns the connection status, the other people in the room,
+ * `setActiveCell` to pass to `<Table onActiveCellChange={...} />`, and
+ * `reconnect` to join the room again after the connection drops.
+ */
+export const useCollaboration = (
+  store: TableStore,
+  actions: Pick<TableActions, 'addBeforeOperationHook' | 'subscribeOperations'>,
+  options: CollaborationOptions | null
+) => {
+  const [client, setClient] = useState<CollaborationClient | null>(null);
+  const [connectionCount, setConnectionCount] = useState(0);
+  const { url, room, name, color } = options ?? {};
+  const { addBeforeOperationHook, subscribeOperations } = actions;
+
+  useEffect(() => {
+    if (!url || !room || !name || !color) return;
+    const newClient = createCollaborationClient(store, { addBeforeOperationHook, subscribeOperations }, { url, room, name, color });
+    setClient(newClient);
+    return () => {
+      newClient.close();
+      setClient(null);
+    };
+  }, [store, addBeforeOperationHook, subscribeOperations, url, room, name, color, connectionCount]);
+
+  const reconnect = useCallback(() => setConnectionCount(count => count + 1), []);
+  const snapshot = useSyncExternalStore(client?.subscribe ?? subscribeNothing, client?.getSnapshot ?? getDisconnected);
+  return { ...snapshot, setActiveCell: client?.setActiveCell, reconnect };
+};
@@ -0,0 +1,237 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TableState } from '../types';
+import { TableStore } from '../utils/tableStore';
+import {
+  TableDocument, TableDocumentSummary, listDocuments, loadDocument, saveDocument, updateDocument, deleteDocument as removeDocument,
+  sortDocuments, getLastDocumentId, setLastDocumentId,
+} from '../utils/storage';
+
+const AUTOSAVE_DELAY = 500;
+const DEFAULT_DOCUMENT_NAME = 'Untitled';
+
+const getUniqueDocumentName = (baseName: string, documents: TableDocumentSummary[]): string => {
+  const names = new Set(documents.map(doc => doc.name));
+  if (!names.has(baseName)) return baseName;
+  let suffix = 2;
+  while (names.has(`${baseName} ${suffix}`)) suffix++;
+  return `${baseName} ${suffix}`;
+};
+
+/**
+ * Keeps the table in IndexedDB as a set of named documents. Changes to the
+ * store's table are saved to the current document after a short pause; a table
+ * created while no document is open gets a new document. On mount the last
+ * open document is restored into the store. Storage failures are reported
+ * through `error`.
+ */
+export const useDocuments = (store: TableStore) => {
+  const [documents, setDocuments] = useState<TableDocumentSummary[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const pendingSaveRef = useRef<{ id: string; state: TableState } | null>(null);
+  const saveTimerRef = useRef<number | null>(null);
+  // The state most recently loaded or saved, so that opening a document doesn't immediately save it again.
+  const savedStateRef = useRef<TableState | null>(null);
+
+  // Storage can fail, e.g. when the quota is full or another tab blocks the database.
+  const reportError = useCallback((message: string, cause: unknown) => {
+    console.error(message, cause);
+    setError(cause instanceof Error && cause.message ? `${message} ${cause.message}` : message);
+  }, []);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  // The list is updated from what was written rather than read back from the database.
+  const showDocument = useCallback((summary: TableDocumentSummary) => {
+    setDocuments(docs => sortDocuments([...docs.filter(doc => doc.id !== summary.id), summary]));
+  }, []);
+
+  const writeDocument = useCallback(async (document: TableDocument) => {
+    await saveDocument(document);
+    const { state, ...summary } = document;
+    showDocument(summary);
+  }, [showDocument]);
+
+  const flushPendingSave = useCallback(async () => {
+    if (saveTimerRef.current !== null) {
+      window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const pending = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (!pending) return;
+    try {
+      // Only the table is replaced, so a rename made meanwhile is kept, and a deleted document isn't recreated.
+      const summary = await updateDocument(pending.id, { state: pending.state });
+      if (summary) showDocument(summary);
+    } catch (error) {
+      // Keep the edits for the next save, unless newer ones have replaced them.
+      pendingSaveRef.current ??= pending;
+      throw error;
+    }
+  }, [showDocument]);
+
+  const saveInBackground = useCallback(() => {
+    flushPendingSave().catch(error => reportError('Your latest changes could not be saved.', error));
+  }, [flushPendingSave, reportError]);
+
+  const openLoadedDocument = useCallback((document: TableDocument | null) => {
+    savedStateRef.current = document?.state ?? null;
+    setCurrentId(document?.id ?? null);
+    setLastDocumentId(document?.id ?? null);
+    store.reset(document?.state ?? null);
+  }, [store]);
+
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const stored = await listDocuments();
+        setDocuments(stored);
+        const lastId = getLastDocumentId();
+        const id = stored.some(doc => doc.id === lastId) ? lastId : stored[0]?.id;
+        if (id) openLoadedDocument((await loadDocument(id)) ?? null);
+      } catch (error) {
+        reportError('The last table could not be restored.', error);
+      } finally {
+        setIsRestoring(false);
+      }
+    };
+    restore();
+  }, []);
+
+  // Autosave. Subscribes to the store directly so edits don't re-render the component using this hook.
+  useEffect(() => {
+    if (isRestoring) return;
+    const handleChange = () => {
+      const tableState = store.getState();
+      if (!tableState || tableState === savedStateRef.current) return;
+      savedStateRef.current = tableState;
+
+      if (!currentId) {
+        const document: TableDocument = {
+          id: crypto.randomUUID(),
+          name: getUniqueDocumentName(DEFAULT_DOCUMENT_NAME, documents),
+          state: tableState,
+          updatedAt: Date.now(),
+        };
+        setCurrentId(document.id);
+        setLastDocumentId(document.id);
+        writeDocument(document).catch(error => {
+          reportError('The table could not be saved.', error);
+          // The next edit tries again with a new document.
+          setCurrentId(null);
+          setLastDocumentId(null);
+        });
+        return;
+      }
+
+      pendingSaveRef.current = { id: currentId, state: tableState };
+      if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = window.setTimeout(saveInBackground, AUTOSAVE_DELAY);
+    };
+    // Pick up a change made before subscribing, e.g. a table created while restoring.
+    handleChange();
+    return store.subscribe(handleChange);
+  }, [store, currentId, isRestoring, documents]);
+
+  // Don't lose the last edits when the page is closed before the debounce fires.
+  useEffect(() => {
+    window.addEventListener('pagehide', saveInBackground);
+    return () => window.removeEventListener('pagehide', saveInBackground);
+  }, [saveInBackground]);
+
+  const openDocument = useCallback(async (id: string) => {
+    try {
+      await flushPendingSave();
+      const document = await loadDocument(id);
+      if (document) openLoadedDocument(document);
+      else setError('The document is damaged and could not be opened.');
+    } catch (error) {
+      reportError('The document could not be opened.', error);
+    }
+  }, [flushPendingSave, openLoadedDocument, reportError]);
+
+  /** Creates a document and opens it. Returns its id, or undefined if it couldn't be saved. */
+  const createDocument = useCallback(async (state: TableState, name = DEFAULT_DOCUMENT_NAME) => {
+    try {
+      await flushPendingSave();
+      const document: TableDocument = {
+        id: crypto.randomUUID(),
+        name: getUniqueDocumentName(name, documents),
+        state,
+        updatedAt: Date.now(),
+      };
+      await writeDocument(document);
+      openLoadedDocument(document);
+      return document.id;
+    } catch (error) {
+      reportError('The document could not be created.', error);
+    }
+  }, [documents, flushPendingSave, writeDocument, openLoadedDocument, reportError]);
+
+  const renameDocument = useCallback(async (id: string, name: string) => {
+    try {
+      await flushPendingSave();
+      const summary = await updateDocument(id, { name });
+      if (summary) showDocument(summary);
+    } catch (error) {
+      reportError('The document could not be renamed.', error);
+    }
+  }, [flushPendingSave, showDocument, reportError]);
+
+  const duplicateDocument = useCallback(async (id: string) => {
+    try {
+      await flushPendingSave();
+      const document = await loadDocument(id);
+      if (!document) {
+        setError('The document is damaged and could not be duplicated.');
+        return;
+      }
+      const copy: TableDocument = {
+        ...document,
+        id: crypto.randomUUID(),
+        name: getUniqueDocumentName(`${document.name} copy`, documents),
+        updatedAt: Date.now(),
+      };
+      await writeDocument(copy);
+      openLoadedDocument(copy);
+    } catch (error) {
+      reportError('The document could not be duplicated.', error);
+    }
+  }, [documents, flushPendingSave, writeDocument, openLoadedDocument, reportError]);
+
+  const deleteDocument = useCallback(async (id: string) => {
+    try {
+      if (id === currentId) {
+        if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+        pendingSaveRef.current = null;
+      } else {
+        await flushPendingSave();
+      }
+      await removeDocument(id);
+      setDocuments(docs => docs.filter(doc => doc.id !== id));
+      if (id !== currentId) return;
+      const remaining = documents.filter(doc => doc.id !== id);
+      // Fall back to the most recently edited document, or the start screen if there is none.
+      openLoadedDocument(remaining.length ? (await loadDocument(remaining[0].id)) ?? null : null);
+    } catch (error) {
+      reportError('The document could not be deleted.', error);
+    }
+  }, [currentId, documents, flushPendingSave, openLoadedDocument, reportError]);
+
+  return {
+    documents,
+    currentDocument: documents.find(doc => doc.id === currentId) ?? null,
+    isRestoring,
+    /** What last went wrong reading or writing documents, to show to the user. */
+    error,
+    dismissError,
+    openDocument,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+  };
+};
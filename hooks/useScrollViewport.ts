@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+
+export interface ScrollViewport {
+  scrollTop: number;
+  scrollLeft: number;
+  width: number;
+  height: number;
+}
+
+const readViewport = (element: HTMLElement): ScrollViewport => ({
+  scrollTop: element.scrollTop,
+  scrollLeft: element.scrollLeft,
+  width: element.clientWidth,
+  height: element.clientHeight,
+});
+
+/**
+ * Tracks the scroll position and visible size of a scroll container. Returns
+ * a callback ref to attach to the container, and the container itself once mounted.
+ */
+export const useScrollViewport = () => {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const [viewport, setViewport] = useState<ScrollViewport>({ scrollTop: 0, scrollLeft: 0, width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+    const update = () => {
+      const next = readViewport(element);
+      setViewport(prev => (
+        prev.scrollTop === next.scrollTop && prev.scrollLeft === next.scrollLeft && prev.width === next.width && prev.height === next.height
+          ? prev
+          : next
+      ));
+    };
+    update();
+    const resizeObserver = new ResizeObserver(update);
+    resizeObserver.observe(element);
+    element.addEventListener('scroll', update, { passive: true });
+    return () => {
+      resizeObserver.disconnect();
+      element.removeEventListener('scroll', update);
+    };
+  }, [element]);
+
+  return { ref: setElement, element, viewport };
+};
@@ -0,0 +1,33 @@
+import { useMemo, useRef } from 'react';
+import { TableState } from '../types';
+import { TableStore, createTableStore } from '../utils/tableStore';
+import { TableActions, createTableActions } from '../utils/tableActions';
+import { useTableStore } from './useTableStore';
+
+/**
+ * Holds a table and its mutators (`addRow`, `addColumn`, `setColumnColor`, ...)
+ * with undo/redo. Pass the result to `<Table state={...} />` to drive the table
+ * from outside, e.g. to put undo buttons or an export menu next to it. The
+ * returned object only changes when `canUndo` or `canRedo` do; read the table
+ * itself with `store.getState()` or subscribe to parts of it with `useTableStore`.
+ */
+export const useTableState = (initialValue: TableState | null = null) => {
+  const ref = useRef<{ store: TableStore; actions: TableActions } | null>(null);
+  if (!ref.current) {
+    const store = createTableStore(initialValue);
+    ref.current = { store, actions: createTableActions(store) };
+  }
+  const { store, actions } = ref.current;
+  const canUndo = useTableStore(store, s => s.canUndo());
+  const canRedo = useTableStore(store, s => s.canRedo());
+
+  return useMemo(() => ({
+    store,
+    ...actions,
+    reset: store.reset,
+    canUndo,
+    canRedo,
+  }), [store, actions, canUndo, canRedo]);
+};
+
+export type TableStateHandle = ReturnType<typeof useTableState>;
@@ -0,0 +1,35 @@
+import { useRef, useSyncExternalStore } from 'react';
+import { Cell } from '../types';
+import { TableStore } from '../utils/tableStore';
+import { cellKey } from '../utils/formula';
+
+/**
+ * Subscribes to the part of the table store picked by `selector`. The component
+ * only re-renders when the selected value changes according to `isEqual`.
+ */
+export const useTableStore = <T,>(
+  store: TableStore,
+  selector: (store: TableStore) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T => {
+  const cacheRef = useRef<{ version: number; selector: (store: TableStore) => T; value: T } | null>(null);
+
+  const getSnapshot = () => {
+    const version = store.getVersion();
+    const cached = cacheRef.current;
+    if (cached && cached.version === version && cached.selector === selector) return cached.value;
+    const value = selector(store);
+    // Keep returning the previous value while it is equal, so React bails out of the re-render.
+    cacheRef.current = { version, selector, value: cached && isEqual(cached.value, value) ? cached.value : value };
+    return cacheRef.current.value;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot);
+};
+
+export const useCell = (store: TableStore, cellId: string): Cell | undefined =>
+  useTableStore(store, s => s.getCell(cellId));
+
+/** The display value of a formula cell, or undefined if the cell doesn't hold a formula. */
+export const useFormulaValue = (store: TableStore, row: number, col: number): string | undefined =>
+  useTableStore(store, s => s.getFormulaValues().get(cellKey(row, col)));
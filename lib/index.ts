@@ -0,0 +1,20 @@
+import '../table.css';
+
+export { default as Table } from '../components/Table';
+export type { TableProps } from '../components/Table';
+export { useTableState } from '../hooks/useTableState';
+export type { TableStateHandle } from '../hooks/useTableState';
+export { useTableStore, useCell } from '../hooks/useTableStore';
+export { createTableStore } from '../utils/tableStore';
+export type { TableStore, TableLayout } from '../utils/tableStore';
+export { createInitialState, createTableFromRows } from '../utils/tableActions';
+export type { TableActions } from '../utils/tableActions';
+export { applyOperation, transformOperation } from '../utils/operations';
+export { useCollaboration } from '../hooks/useCollaboration';
+export { createCollaborationClient } from '../utils/collaboration';
+export type { CollaborationClient, CollaborationOptions, CollaborationStatus } from '../utils/collaboration';
+export type {
+  Cell, CellPosition, CellRange, RichTextSpan, CellStyle, TextAlign, Column, ColumnType, MenuItem, NumberFormat, Row, SelectOption, TableData, TableState,
+  FormatRule, ConditionFormatRule, ColorScaleFormatRule,
+  TableOperation, CellContentChange, PastedCell, BeforeOperationHook, OperationListener, RemoteCursor,
+} from '../types';
@@ -0,0 +1,206 @@
+// Relay server for collaborative editing. Run it with `npm run relay`.
+//
+// Clients in the same room send it their table operations; it appends them to
+// the room's log in the order they arrive and sends each one to everyone in the
+// room, including its author. It doesn't look inside operations: merging
+// concurrent edits happens in the clients (see utils/collaboration.ts). Rooms
+// only live in memory, and are dropped when their last client leaves.
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 4000;
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// --- WebSocket framing ---
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Reads the complete frames at the start of `buffer`. Returns them and the bytes left over.
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let position = offset + 2;
+    if (length === 126) {
+      if (buffer.length < position + 2) break;
+      length = buffer.readUInt16BE(position);
+      position += 2;
+    } else if (length === 127) {
+      if (buffer.length < position + 8) break;
+      length = Number(buffer.readBigUInt64BE(position));
+      position += 8;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < position + maskLength + length) break;
+    const mask = buffer.subarray(position, position + maskLength);
+    position += maskLength;
+    const payload = Buffer.from(buffer.subarray(position, position + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ fin, opcode, payload });
+    offset = position + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+const acceptWebSocket = (request, socket, onMessage, onClose) => {
+  const key = request.headers['sec-websocket-key'];
+  if (!key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', '',
+  ].join('\r\n'));
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+  const connection = {
+    send: (text) => {
+      if (!closed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text)));
+    },
+  };
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+  };
+
+  socket.on('data', (data) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, data]));
+    pending = rest;
+    for (const { fin, opcode, payload } of frames) {
+      if (opcode === OPCODE_TEXT || opcode === OPCODE_CONTINUATION) {
+        fragments.push(payload);
+        if (!fin) continue;
+        const message = Buffer.concat(fragments).toString('utf8');
+        fragments = [];
+        onMessage(message);
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        socket.end(encodeFrame(OPCODE_CLOSE, payload.subarray(0, 2)));
+        close();
+      }
+    }
+  });
+  socket.on('close', close);
+  socket.on('error', close);
+  return connection;
+};
+
+// --- Rooms ---
+
+/** @type {Map<string, { state: unknown, log: unknown[], clients: Map<string, { connection: { send: (text: string) => void }, peer: { id: string, name: string, color: string, cellId: string | null } }> }>} */
+const rooms = new Map();
+
+const broadcast = (room, message, exceptId = null) => {
+  const text = JSON.stringify(message);
+  room.clients.forEach((client, id) => {
+    if (id !== exceptId) client.connection.send(text);
+  });
+};
+
+const handleConnection = (request, socket) => {
+  const clientId = randomUUID();
+  let room = null;
+  let roomName = null;
+
+  const handleMessage = (message) => {
+    switch (message.type) {
+      case 'join': {
+        if (room || typeof message.room !== 'string') return;
+        roomName = message.room;
+        room = rooms.get(roomName);
+        if (!room) {
+          room = { state: null, log: [], clients: new Map() };
+          rooms.set(roomName, room);
+        }
+        // The first client to bring a table decides what the room starts from.
+        if (!room.state && !room.log.length) room.state = message.state ?? null;
+        const peer = { id: clientId, name: String(message.name ?? 'Guest'), color: String(message.color ?? '#3b82f6'), cellId: null };
+        connection.send(JSON.stringify({
+          type: 'joined',
+          clientId,
+          state: room.state,
+          log: room.log,
+          peers: [...room.clients.values()].map(client => client.peer),
+        }));
+        room.clients.set(clientId, { connection, peer });
+        broadcast(room, { type: 'presence', peer }, clientId);
+        break;
+      }
+      case 'operation': {
+        if (!room || !Number.isInteger(message.base) || message.base < 0 || message.base > room.log.length) return;
+        const entry = { clientId, id: message.id, base: message.base, operation: message.operation };
+        room.log.push(entry);
+        broadcast(room, { type: 'operation', entry });
+        break;
+      }
+      case 'presence': {
+        const client = room?.clients.get(clientId);
+        if (!client) return;
+        client.peer = { ...client.peer, cellId: message.cellId ?? null };
+        broadcast(room, { type: 'presence', peer: client.peer }, clientId);
+        break;
+      }
+    }
+  };
+
+  const connection = acceptWebSocket(request, socket, (text) => {
+    try {
+      handleMessage(JSON.parse(text));
+    } catch (error) {
+      console.error(`Ignoring message from ${clientId}:`, error.message);
+    }
+  }, () => {
+    if (!room) return;
+    room.clients.delete(clientId);
+    if (room.clients.size) broadcast(room, { type: 'left', clientId });
+    else rooms.delete(roomName);
+  });
+};
+
+const server = createServer((_request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Connect with a WebSocket.\n');
+});
+server.on('upgrade', handleConnection);
+server.listen(PORT, () => {
+  console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
+});
@@ -1,20 +1,136 @@
-export interface Cell {
-  id: string;
-  content: string;
+import type { ReactNode } from 'react';
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/** How a cell looks. */
+export interface CellStyle {
   color: string;
   backgroundColor: string;
   fontSize: number;
   fontWeight: 'normal' | 'bold';
+  /** Unset, text follows the column type: numbers on the right, everything else on the left. */
+  textAlign?: TextAlign;
+}
+
+/** A cell's own style overrides its column's `style`; what it leaves out comes from the column. */
+export interface Cell extends Partial<CellStyle> {
+  id: string;
+  content: string;
+  /** Inline formatting of `content`, whose text the spans add up to. Absent when the content is plain text. */
+  richText?: RichTextSpan[];
+}
+
+/** A run of text in a cell that is formatted the same throughout. */
+export interface RichTextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strikethrough?: boolean;
+  code?: boolean;
+  href?: string;
 }
 
 export type Row = Cell[];
 
 export type TableData = Row[];
 
+export type ColumnType = 'text' | 'number' | 'date' | 'checkbox' | 'select' | 'multiSelect' | 'url';
+
+export type NumberFormat = 'number' | 'commas' | 'percent' | 'dollar';
+
+export interface SelectOption {
+  id: string;
+  name: string;
+  color: string;
+}
+
 export interface Column {
   id:string;
+  name: string;
   isHeader: boolean;
   width: number;
+  type: ColumnType;
+  options?: SelectOption[];
+  numberFormat?: NumberFormat;
+  formatRules?: FormatRule[];
+  /** The style the column's cells have unless they set their own. Unset values fall back to `DEFAULT_CELL_STYLE`. */
+  style?: Partial<CellStyle>;
+}
+
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+export interface CellRange {
+  start: CellPosition;
+  end: CellPosition;
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  columnId: string;
+  direction: SortDirection;
+}
+
+export type FilterOperator =
+  | 'contains'
+  | 'equals'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'regex';
+
+export interface ColumnFilter {
+  id: string;
+  columnId: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export type FilterConjunction = 'and' | 'or';
+
+/** Colors cells whose value passes a filter-style condition, e.g. "greater than 100". */
+export interface ConditionFormatRule {
+  id: string;
+  type: 'condition';
+  operator: FilterOperator;
+  value: string;
+  style: Partial<Pick<CellStyle, 'color' | 'backgroundColor'>>;
+}
+
+/** Shades the backgrounds of numeric cells from `minColor` to `maxColor` (hex colors) across the column's range. */
+export interface ColorScaleFormatRule {
+  id: string;
+  type: 'colorScale';
+  minColor: string;
+  maxColor: string;
+}
+
+export type FormatRule = ConditionFormatRule | ColorScaleFormatRule;
+
+export interface FindOptions {
+  query: string;
+  matchCase: boolean;
+  /** Only match cells whose whole content matches the query. */
+  wholeCell: boolean;
+  useRegex: boolean;
+  /** The column to search, or null to search them all. */
+  columnId: string | null;
+}
+
+export interface TableState {
+  tableData: TableData;
+  columns: Column[];
+  rowHeights: number[];
+  /** Blocks of cells shown as one, in data rows. The top-left cell of each is displayed across the block. */
+  merges?: CellRange[];
+  /** How many leading columns stay in place when the table scrolls sideways. */
+  frozenColumns?: number;
 }
 
 export type ContextMenuData = {
@@ -23,6 +139,12 @@ export type ContextMenuData = {
   colIndex: number;
 } | null;
 
+export type RowContextMenuData = {
+  x: number;
+  y: number;
+  rowIndex: number;
+} | null;
+
 export type CellContextMenuData = {
   x: number;
   y: number;
@@ -30,32 +152,99 @@ export type CellContextMenuData = {
   colIndex: number;
 } | null;
 
-export type CellStyle = Omit<Cell, 'id' | 'content'>;
+// --- Operations ---
+
+/** New content for a cell. `row` and `col` are data positions. */
+export interface CellContentChange extends CellPosition {
+  content: string;
+  richText?: RichTextSpan[];
+}
+
+/** A cell written by a paste. */
+export interface PastedCell extends CellContentChange {
+  style?: Partial<CellStyle>;
+}
+
+/**
+ * A single change to the table. Positions are data rows and columns, so they
+ * don't depend on how the table is sorted or filtered. Operations that create
+ * cells or columns carry them, ids included, so applying the same operation to
+ * another copy of the table gives the same result.
+ */
+export type TableOperation =
+  | { type: 'cellContentChanged'; row: number; col: number; content: string; richText?: RichTextSpan[] }
+  | { type: 'cellsContentChanged'; cells: CellContentChange[] }
+  | { type: 'cellStyleChanged'; cells: CellPosition[]; style: Partial<CellStyle> }
+  | { type: 'cellsCleared'; cells: CellPosition[] }
+  /** Drops the cells' own style, so they take their column's again. */
+  | { type: 'cellsStyleReset'; cells: CellPosition[] }
+  | { type: 'cellsPasted'; cells: PastedCell[] }
+  | { type: 'cellsMerged'; range: CellRange }
+  /** Removes the merges that touch any of `ranges`. */
+  | { type: 'cellsUnmerged'; ranges: CellRange[] }
+  | { type: 'rowInserted'; index: number; cells: Cell[]; height: number }
+  | { type: 'rowDeleted'; index: number }
+  | { type: 'rowMoved'; from: number; to: number }
+  /** Row `i` of the sorted table is row `order[i]` of the table before sorting. */
+  | { type: 'rowsSorted'; order: number[] }
+  | { type: 'rowResized'; index: number; height: number }
+  | { type: 'columnInserted'; index: number; column: Column; cells: Cell[] }
+  | { type: 'columnDeleted'; index: number }
+  | { type: 'columnMoved'; from: number; to: number }
+  | { type: 'columnRenamed'; index: number; name: string }
+  | { type: 'columnHeaderChanged'; index: number; isHeader: boolean }
+  | { type: 'columnTypeChanged'; index: number; columnType: ColumnType; options?: SelectOption[] }
+  | { type: 'columnNumberFormatChanged'; index: number; numberFormat: NumberFormat }
+  | { type: 'columnOptionsChanged'; index: number; options: SelectOption[] }
+  | { type: 'columnFormatRulesChanged'; index: number; formatRules: FormatRule[] }
+  | { type: 'columnResized'; index: number; width: number }
+  | { type: 'columnStyleChanged'; index: number; style: Partial<CellStyle> }
+  | { type: 'columnsFrozen'; count: number }
+  /** Replaces the whole table, e.g. when an edit is undone or redone. */
+  | { type: 'tableReplaced'; state: TableState };
+
+/**
+ * Called with each operation before it is applied, and the table it applies to.
+ * Return `false` to reject the operation, or another operation to apply instead.
+ */
+export type BeforeOperationHook = (operation: TableOperation, state: TableState) => TableOperation | false | void;
+
+export type OperationListener = (operation: TableOperation) => void;
+
+// --- Collaboration ---
+
+/** Another user editing the same table, and the cell they have selected. */
+export interface RemoteCursor {
+  id: string;
+  name: string;
+  color: string;
+  cellId: string | null;
+}
 
 export type MenuItem =
   | {
       type: 'item';
       label: string;
-      icon?: React.ReactNode;
+      icon?: ReactNode;
       action?: () => void;
       disabled?: boolean;
     }
   | {
       type: 'submenu';
       label: string;
-      icon?: React.ReactNode;
+      icon?: ReactNode;
       subMenu: MenuItem[];
     }
   | {
       type: 'toggle';
       label: string;
-      icon?: React.ReactNode;
+      icon?: ReactNode;
       checked: boolean;
       action: () => void;
     }
   | {
       type: 'custom';
-      content: React.ReactNode;
+      content: ReactNode;
   }
   | {
       type: 'divider';
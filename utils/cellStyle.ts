@@ -0,0 +1,56 @@
+import { Cell, CellStyle, Column, TableState, TextAlign } from '../types';
+import { DEFAULT_CELL_STYLE } from '../constants';
+
+const STYLE_KEYS: (keyof CellStyle)[] = ['color', 'backgroundColor', 'fontSize', 'fontWeight', 'textAlign'];
+
+/** The style a column's cells have unless they set their own. */
+export const getColumnStyle = (column: Column | undefined): CellStyle => ({ ...DEFAULT_CELL_STYLE, ...column?.style });
+
+/** Where text goes in a column whose style doesn't set an alignment. */
+export const getDefaultAlign = (column: Column | undefined): TextAlign => (column?.type === 'number' ? 'right' : 'left');
+
+/** The style a cell sets for itself. */
+export const getOwnStyle = (cell: Cell): Partial<CellStyle> => {
+  const style: Partial<CellStyle> = {};
+  STYLE_KEYS.forEach(key => {
+    if (cell[key] !== undefined) Object.assign(style, { [key]: cell[key] });
+  });
+  return style;
+};
+
+/** How a cell looks: its own style over its column's. */
+export const resolveCellStyle = (cell: Cell, column: Column | undefined): CellStyle => ({
+  ...getColumnStyle(column),
+  ...getOwnStyle(cell),
+});
+
+/** The cell with no style of its own, so it takes its column's. */
+export const withoutOwnStyle = (cell: Cell): Cell => {
+  const { color, backgroundColor, fontSize, fontWeight, textAlign, ...rest } = cell;
+  return rest;
+};
+
+export const hasOwnStyle = (cell: Cell) => STYLE_KEYS.some(key => cell[key] !== undefined);
+
+/**
+ * Drops the style values cells repeat from their column, so saved tables only
+ * store what differs. Rows without any keep their identity.
+ */
+export const compactCellStyles = (state: TableState): TableState => {
+  const columnStyles = state.columns.map(getColumnStyle);
+  let changed = false;
+  const tableData = state.tableData.map(row => {
+    let newRow = row;
+    row.forEach((cell, col) => {
+      const repeated = STYLE_KEYS.filter(key => key in cell && cell[key] === columnStyles[col]?.[key]);
+      if (!repeated.length) return;
+      const compacted = { ...cell };
+      repeated.forEach(key => delete compacted[key]);
+      if (newRow === row) newRow = [...row];
+      newRow[col] = compacted;
+      changed = true;
+    });
+    return newRow;
+  });
+  return changed ? { ...state, tableData } : state;
+};
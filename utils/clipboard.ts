@@ -0,0 +1,182 @@
+import { Cell, CellStyle } from '../types';
+
+export interface ClipboardCell {
+  content: string;
+  style?: Partial<CellStyle>;
+}
+
+export type ClipboardGrid = ClipboardCell[][];
+
+// --- Plain text (TSV) ---
+
+const escapeTsvField = (value: string): string =>
+  /[\t\n\r"]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const serializeTsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeTsvField).join('\t')).join('\n');
+
+/**
+ * Parses tab-separated text as produced by spreadsheet applications. Fields
+ * wrapped in double quotes may contain tabs, newlines and escaped quotes.
+ */
+export const parseTsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldStart = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"' && fieldStart) {
+      inQuotes = true;
+      fieldStart = false;
+    } else if (char === '\t') {
+      row.push(field);
+      field = '';
+      fieldStart = true;
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      fieldStart = true;
+    } else {
+      field += char;
+      fieldStart = false;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// --- HTML ---
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const cellStyleToCss = (style: Partial<CellStyle>): string => {
+  const declarations: string[] = [];
+  if (style.color) declarations.push(`color: ${style.color}`);
+  if (style.backgroundColor && style.backgroundColor !== 'transparent') declarations.push(`background-color: ${style.backgroundColor}`);
+  if (style.fontSize) declarations.push(`font-size: ${style.fontSize}px`);
+  if (style.fontWeight) declarations.push(`font-weight: ${style.fontWeight}`);
+  if (style.textAlign) declarations.push(`text-align: ${style.textAlign}`);
+  return declarations.join('; ');
+};
+
+export const serializeHtmlTable = (cells: Cell[][]): string => {
+  const rows = cells.map(row => {
+    const tds = row.map(cell => {
+      const { id, content, richText, ...style } = cell;
+      const html = escapeHtml(content).replace(/\n/g, '<br>');
+      return `<td style="${escapeHtml(cellStyleToCss(style))}">${html}</td>`;
+    });
+    return `<tr>${tds.join('')}</tr>`;
+  });
+  return `<table>${rows.join('')}</table>`;
+};
+
+const readElementText = (element: Element): string => {
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  return (clone.textContent ?? '').replace(/ /g, ' ');
+};
+
+const readElementStyle = (element: HTMLElement): Partial<CellStyle> => {
+  const style: Partial<CellStyle> = {};
+  const { color, backgroundColor, fontSize, fontWeight, textAlign } = element.style;
+  if (color) style.color = color;
+  if (backgroundColor) style.backgroundColor = backgroundColor;
+  const size = parseFloat(fontSize);
+  if (!isNaN(size) && fontSize.endsWith('px')) style.fontSize = Math.round(size);
+  else if (!isNaN(size) && fontSize.endsWith('pt')) style.fontSize = Math.round(size * 4 / 3);
+  if (fontWeight === 'bold' || Number(fontWeight) >= 600) style.fontWeight = 'bold';
+  else if (element.querySelector('b, strong')?.textContent === element.textContent && element.textContent) style.fontWeight = 'bold';
+  if (textAlign === 'left' || textAlign === 'center' || textAlign === 'right') style.textAlign = textAlign;
+  return style;
+};
+
+/** Extracts the first `<table>` from clipboard HTML, or returns null if there is none. */
+export const parseHtmlTable = (html: string): ClipboardGrid | null => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return null;
+  const rows = Array.from(table.querySelectorAll('tr'));
+  if (!rows.length) return null;
+  return rows.map(tr =>
+    Array.from(tr.querySelectorAll<HTMLElement>('td, th')).map(td => ({
+      content: readElementText(td),
+      style: readElementStyle(td),
+    }))
+  );
+};
+
+// --- Browser clipboard ---
+
+/**
+ * The plain text copied for `cells`. Formula cells are copied as their
+ * formulas rather than their results, in the HTML copy too, so a block pasted
+ * back into a table keeps calculating; spreadsheet apps read them as formulas
+ * as well.
+ */
+export const serializeClipboardText = (cells: Cell[][]): string =>
+  serializeTsv(cells.map(row => row.map(cell => cell.content)));
+
+export const writeClipboard = async (cells: Cell[][]): Promise<void> => {
+  const text = serializeClipboardText(cells);
+  const html = serializeHtmlTable(cells);
+  if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+        'text/html': new Blob([html], { type: 'text/html' }),
+      }),
+    ]);
+  } else {
+    await navigator.clipboard.writeText(text);
+  }
+};
+
+export const parseClipboardData = (text: string, html: string): ClipboardGrid => {
+  const htmlGrid = html ? parseHtmlTable(html) : null;
+  if (htmlGrid) return htmlGrid;
+  return parseTsv(text).map(row => row.map(content => ({ content })));
+};
+
+export const readClipboard = async (): Promise<ClipboardGrid> => {
+  if (navigator.clipboard.read) {
+    try {
+      const items = await navigator.clipboard.read();
+      let text = '';
+      let html = '';
+      for (const item of items) {
+        if (item.types.includes('text/html')) html = await (await item.getType('text/html')).text();
+        if (item.types.includes('text/plain')) text = await (await item.getType('text/plain')).text();
+      }
+      return parseClipboardData(text, html);
+    } catch (error) {
+      // Fall back to plain text when rich clipboard access is not permitted.
+    }
+  }
+  return parseClipboardData(await navigator.clipboard.readText(), '');
+};
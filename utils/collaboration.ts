@@ -0,0 +1,199 @@
+import { RemoteCursor, TableOperation, TableState } from '../types';
+import { TableStore } from './tableStore';
+import { TableActions } from './tableActions';
+import { applyOperation, transformOperation } from './operations';
+
+// Collaboration works through a relay server (`npm run relay`) that puts every
+// client's operations into one log and sends the log to everyone in the room.
+// An operation is made against the log as its author last saw it (`base`), so
+// each client rewrites it against the entries that came in between. Every
+// client does this the same way, so they all end up with the same table.
+// Local operations are applied right away and sent one at a time; until the
+// relay sends one back, incoming operations are transformed around it.
+// Edits that couldn't be sent would be lost when rejoining, so the table is
+// read-only until the room is joined and again after the connection drops.
+
+export interface CollaborationOptions {
+  /** The relay server, e.g. `ws://localhost:4000`. */
+  url: string;
+  room: string;
+  name: string;
+  color: string;
+}
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface CollaborationSnapshot {
+  status: CollaborationStatus;
+  peers: RemoteCursor[];
+  /** Whether the connection dropped before the relay had every local edit. */
+  hasUnsentChanges: boolean;
+}
+
+interface LogEntry {
+  clientId: string;
+  id: number;
+  base: number;
+  operation: TableOperation;
+}
+
+type ServerMessage =
+  | { type: 'joined'; clientId: string; state: TableState | null; log: LogEntry[]; peers: RemoteCursor[] }
+  | { type: 'operation'; entry: LogEntry }
+  | { type: 'presence'; peer: RemoteCursor }
+  | { type: 'left'; clientId: string };
+
+type ClientMessage =
+  | { type: 'join'; room: string; name: string; color: string; state: TableState | null }
+  | { type: 'operation'; id: number; base: number; operation: TableOperation }
+  | { type: 'presence'; cellId: string | null };
+
+const applyAll = (state: TableState, operations: (TableOperation | null)[]) =>
+  operations.reduce((current, operation) => operation ? applyOperation(current, operation) : current, state);
+
+/**
+ * Connects `store` to a room on the relay server. Operations made through
+ * `actions` are sent to the room and operations from others are merged into
+ * the store. The room's table replaces the store's when joining a room that
+ * already has one. Operations are rejected while not connected. Undo history
+ * isn't shared, so hosts should turn off undo while collaborating.
+ */
+export const createCollaborationClient = (
+  store: TableStore,
+  actions: Pick<TableActions, 'addBeforeOperationHook' | 'subscribeOperations'>,
+  options: CollaborationOptions
+) => {
+  let snapshot: CollaborationSnapshot = { status: 'connecting', peers: [], hasUnsentChanges: false };
+  const listeners = new Set<() => void>();
+  let clientId: string | null = null;
+  let activeCellId: string | null = null;
+
+  // The table as of the end of the log, and the log with every entry already transformed.
+  let confirmed: TableState | null = null;
+  const log: (TableOperation | null)[] = [];
+  // The local operation the relay hasn't sent back yet. It becomes null if a remote change cancels it.
+  let inflight: { id: number; operation: TableOperation | null } | null = null;
+  // Local operations waiting for `inflight`.
+  let buffer: TableOperation[] = [];
+  let nextOperationId = 1;
+
+  const setSnapshot = (changes: Partial<CollaborationSnapshot>) => {
+    snapshot = { ...snapshot, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const socket = new WebSocket(options.url);
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const flush = () => {
+    if (inflight || !buffer.length) return;
+    const [operation, ...rest] = buffer;
+    buffer = rest;
+    inflight = { id: nextOperationId++, operation };
+    send({ type: 'operation', id: inflight.id, base: log.length, operation });
+  };
+
+  // Adds an entry to the log, transformed against the entries its author hadn't seen.
+  const appendToLog = (entry: LogEntry) => {
+    let operation: TableOperation | null = entry.operation;
+    for (let index = entry.base; index < log.length && operation; index++) {
+      const against = log[index];
+      if (against) operation = transformOperation(operation, against, false);
+    }
+    log.push(operation);
+    if (operation && confirmed) confirmed = applyOperation(confirmed, operation);
+    return operation;
+  };
+
+  const receiveEntry = (entry: LogEntry) => {
+    const operation = appendToLog(entry);
+    if (entry.clientId === clientId && entry.id === inflight?.id) {
+      // Our own operation, already applied locally.
+      inflight = null;
+      flush();
+      return;
+    }
+    if (!operation || !confirmed) return;
+
+    // Move the pending local operations past the remote one, then show them on top of the confirmed table.
+    let remote: TableOperation | null = operation;
+    const rebase = (pending: TableOperation | null) => {
+      if (!pending || !remote) return pending;
+      const transformed = transformOperation(pending, remote, false);
+      remote = transformOperation(remote, pending, true);
+      return transformed;
+    };
+    if (inflight) inflight = { ...inflight, operation: rebase(inflight.operation) };
+    buffer = buffer.map(rebase).filter((pending): pending is TableOperation => !!pending);
+    store.setState(applyAll(confirmed, [inflight?.operation ?? null, ...buffer]));
+  };
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'joined': {
+        clientId = message.clientId;
+        confirmed = message.state;
+        log.length = 0;
+        message.log.forEach(appendToLog);
+        store.reset(confirmed);
+        setSnapshot({ status: 'connected', peers: message.peers });
+        if (activeCellId) send({ type: 'presence', cellId: activeCellId });
+        break;
+      }
+      case 'operation':
+        receiveEntry(message.entry);
+        break;
+      case 'presence':
+        setSnapshot({ peers: [...snapshot.peers.filter(peer => peer.id !== message.peer.id), message.peer] });
+        break;
+      case 'left':
+        setSnapshot({ peers: snapshot.peers.filter(peer => peer.id !== message.clientId) });
+        break;
+    }
+  };
+
+  socket.addEventListener('open', () => {
+    send({ type: 'join', room: options.room, name: options.name, color: options.color, state: store.getState() });
+  });
+  socket.addEventListener('message', event => {
+    try {
+      handleMessage(JSON.parse(event.data));
+    } catch (error) {
+      console.error('Failed to handle collaboration message', error);
+    }
+  });
+  socket.addEventListener('close', () => {
+    setSnapshot({ status: 'disconnected', peers: [], hasUnsentChanges: !!inflight?.operation || buffer.length > 0 });
+  });
+
+  const removeHook = actions.addBeforeOperationHook(() => (snapshot.status === 'connected' ? undefined : false));
+  // The store can still be changed directly, e.g. by a host's `value`; those changes aren't shared.
+  const unsubscribeOperations = actions.subscribeOperations(operation => {
+    if (snapshot.status !== 'connected') return;
+    buffer.push(operation);
+    flush();
+  });
+
+  return {
+    getSnapshot: () => snapshot,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    /** Shows the local user's selected cell to the others in the room. */
+    setActiveCell: (cellId: string | null) => {
+      if (cellId === activeCellId) return;
+      activeCellId = cellId;
+      send({ type: 'presence', cellId });
+    },
+    close: () => {
+      removeHook();
+      unsubscribeOperations();
+      socket.close();
+    },
+  };
+};
+
+export type CollaborationClient = ReturnType<typeof createCollaborationClient>;
@@ -0,0 +1,79 @@
+import { CellStyle, Column, ColumnFilter, FormatRule, TableState } from '../types';
+import { isFilterActive, matchesFilter } from './filtering';
+import { parseNumber } from './propertyTypes';
+import { cellKey } from './formula';
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+export type ConditionalStyle = Partial<Pick<CellStyle, 'color' | 'backgroundColor'>>;
+
+// Color scale shades are as translucent as the background palette, so text stays readable.
+const COLOR_SCALE_ALPHA = 0.5;
+
+const hexToRgb = (hex: string): [number, number, number] | null => {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : null;
+};
+
+const interpolateColor = (from: string, to: string, ratio: number): string | undefined => {
+  const start = hexToRgb(from);
+  const end = hexToRgb(to);
+  if (!start || !end) return undefined;
+  const [r, g, b] = start.map((channel, index) => Math.round(channel + (end[index] - channel) * ratio));
+  return `rgba(${r}, ${g}, ${b}, ${COLOR_SCALE_ALPHA})`;
+};
+
+const getRuleStyle = (rule: FormatRule, content: string, column: Column, range: NumberRange | undefined): ConditionalStyle | null => {
+  if (rule.type === 'condition') {
+    const filter: ColumnFilter = { id: rule.id, columnId: column.id, operator: rule.operator, value: rule.value };
+    return isFilterActive(filter) && matchesFilter(content, filter, column) ? rule.style : null;
+  }
+  const value = parseNumber(content);
+  if (value === null || !range) return null;
+  const ratio = range.max === range.min ? 1 : (value - range.min) / (range.max - range.min);
+  const backgroundColor = interpolateColor(rule.minColor, rule.maxColor, ratio);
+  return backgroundColor ? { backgroundColor } : null;
+};
+
+/**
+ * The colors a column's formatting rules give a cell displaying `content`,
+ * to be drawn over the cell's own style. Rules earlier in the list win.
+ * `range` is the column's range of numbers, which color scales need.
+ */
+export const getConditionalStyle = (content: string, column: Column, range?: NumberRange): ConditionalStyle => {
+  const style: ConditionalStyle = {};
+  column.formatRules?.forEach(rule => {
+    const ruleStyle = getRuleStyle(rule, content, column, range);
+    if (!ruleStyle) return;
+    if (ruleStyle.color && !style.color) style.color = ruleStyle.color;
+    if (ruleStyle.backgroundColor && !style.backgroundColor) style.backgroundColor = ruleStyle.backgroundColor;
+  });
+  return style;
+};
+
+/** The range of numbers displayed in each column that has a color scale, by column id. */
+export const getColorScaleRanges = (state: TableState | null, formulaValues: Map<string, string>): Record<string, NumberRange> => {
+  const ranges: Record<string, NumberRange> = {};
+  state?.columns.forEach((column, colIndex) => {
+    if (!column.formatRules?.some(rule => rule.type === 'colorScale')) return;
+    let min = Infinity;
+    let max = -Infinity;
+    state.tableData.forEach((row, rowIndex) => {
+      const value = parseNumber(formulaValues.get(cellKey(rowIndex, colIndex)) ?? row[colIndex].content);
+      if (value === null) return;
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    });
+    if (min <= max) ranges[column.id] = { min, max };
+  });
+  return ranges;
+};
+
+export const colorScaleRangesEqual = (a: Record<string, NumberRange>, b: Record<string, NumberRange>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => b[key] && a[key].min === b[key].min && a[key].max === b[key].max);
+};
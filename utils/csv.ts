@@ -0,0 +1,118 @@
+export interface CsvParseError {
+  /** 1-based record number, counting the header row. */
+  record: number;
+  /** 1-based line in the source text where the record starts. */
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  rows: string[][];
+  errors: CsvParseError[];
+}
+
+const needsQuoting = (value: string, delimiter: string): boolean =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim();
+
+export const serializeCsv = (rows: string[][], delimiter = ','): string =>
+  rows
+    .map(row => row.map(value => (needsQuoting(value, delimiter) ? `"${value.replace(/"/g, '""')}"` : value)).join(delimiter))
+    .join('\r\n');
+
+/**
+ * Parses RFC 4180 CSV. Quoted fields may contain the delimiter, line breaks
+ * and doubled quotes. Parsing is lenient: malformed input is still turned
+ * into rows, and every problem found is reported in `errors`.
+ */
+export const parseCsv = (text: string, delimiter = ','): CsvParseResult => {
+  const rows: string[][] = [];
+  const errors: CsvParseError[] = [];
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const recordLines: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let wasQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const report = (message: string) => {
+    errors.push({ record: rows.length + 1, line: recordLine, message });
+  };
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+    wasQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    const isBlankLine = row.length === 1 && row[0] === '';
+    if (!isBlankLine) {
+      rows.push(row);
+      recordLines.push(recordLine);
+    }
+    row = [];
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (char === '"') {
+      if (field === '' && !wasQuoted) {
+        inQuotes = true;
+        wasQuoted = true;
+      } else {
+        report(`Unexpected quote in field ${row.length + 1}.`);
+        field += char;
+      }
+    } else {
+      if (wasQuoted) {
+        report(`Unexpected character after closing quote in field ${row.length + 1}.`);
+        wasQuoted = false;
+      }
+      field += char;
+    }
+  }
+
+  if (inQuotes) report(`Unterminated quoted field ${row.length + 1}.`);
+  if (field !== '' || row.length > 0 || wasQuoted) endRecord();
+
+  const expectedLength = rows[0]?.length ?? 0;
+  rows.forEach((r, index) => {
+    if (r.length !== expectedLength) {
+      errors.push({
+        record: index + 1,
+        line: recordLines[index],
+        message: `Expected ${expectedLength} fields but found ${r.length}.`,
+      });
+    }
+  });
+  errors.sort((a, b) => a.record - b.record);
+
+  return { rows, errors };
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { toXlsx } from './exporters';
+import { createTableFromRows } from './tableActions';
+
+describe('toXlsx', () => {
+  it('writes the values a number column treats as numbers as number cells', () => {
+    const state = createTableFromRows([['1,234'], ['12%'], ['n/a']], null);
+    state.columns[0] = { ...state.columns[0], type: 'number' };
+    // The archive is stored uncompressed, so the sheet can be read straight from it.
+    const sheet = new TextDecoder().decode(toXlsx(state));
+    expect(sheet).toMatch(/<c r="A2" s="\d+"><v>1234<\/v><\/c>/);
+    expect(sheet).toMatch(/<c r="A3" s="\d+"><v>12<\/v><\/c>/);
+    expect(sheet).toMatch(/<c r="A4" t="inlineStr" s="\d+"><is><t xml:space="preserve">n\/a<\/t><\/is><\/c>/);
+  });
+});
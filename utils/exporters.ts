@@ -0,0 +1,304 @@
+import { CellRange, CellStyle, Column, RichTextSpan, TableData, TableState } from '../types';
+import { DEFAULT_CELL_STYLE } from '../constants';
+import { serializeCsv } from './csv';
+import { cellStyleToCss } from './clipboard';
+import { createZip } from './zip';
+import { getSafeHref } from './richText';
+import { resolveCellStyle } from './cellStyle';
+import { cellKey, isFormula } from './formula';
+import { createFormulaEngine } from './formulaEngine';
+import { parseNumber } from './propertyTypes';
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+/** The cells hidden under merged blocks, i.e. all but each block's top-left cell. */
+const getCoveredCells = (merges: CellRange[]): Set<string> => {
+  const covered = new Set<string>();
+  merges.forEach(({ start, end }) => {
+    for (let row = start.row; row <= end.row; row++) {
+      for (let col = start.col; col <= end.col; col++) {
+        if (row !== start.row || col !== start.col) covered.add(cellKey(row, col));
+      }
+    }
+  });
+  return covered;
+};
+
+// Exports hold what the table shows: formula results rather than formulas, and
+// merged blocks only through their top-left cell.
+const getExportData = (state: TableState): TableData => {
+  const values = createFormulaEngine().update(state.tableData);
+  const covered = getCoveredCells(state.merges ?? []);
+  if (!values.size && !covered.size) return state.tableData;
+  return state.tableData.map((row, rowIndex) => row.map((cell, colIndex) => {
+    const key = cellKey(rowIndex, colIndex);
+    const { richText, ...plainCell } = cell;
+    if (covered.has(key)) return { ...plainCell, content: '' };
+    const value = values.get(key);
+    return value === undefined ? cell : { ...plainCell, content: value };
+  }));
+};
+
+// --- CSV ---
+
+export const toCsv = (state: TableState, delimiter: string, includeHeaderRow: boolean): string => {
+  const rows = getExportData(state).map(row => row.map(cell => cell.content));
+  if (includeHeaderRow) rows.unshift(state.columns.map(col => col.name));
+  return serializeCsv(rows, delimiter);
+};
+
+// --- Markdown ---
+
+const escapeMarkdownCell = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/</g, '&lt;')
+    .replace(/\r?\n/g, '<br>');
+
+/** Renders a GitHub-flavored Markdown table, right-aligning number columns. */
+export const toMarkdown = (state: TableState): string => {
+  const header = state.columns.map(col => escapeMarkdownCell(col.name) || ' ');
+  const separator = state.columns.map(col => (col.type === 'number' ? '---:' : '---'));
+  const rows = getExportData(state).map(row => row.map(cell => escapeMarkdownCell(cell.content)));
+  return [header, separator, ...rows].map(cells => `| ${cells.join(' | ')} |`).join('\n') + '\n';
+};
+
+// --- HTML ---
+
+// Exported cells show their column's style where they don't set their own, with header columns in bold.
+const getExportStyle = (style: CellStyle, column: Column): CellStyle => (column.isHeader ? { ...style, fontWeight: 'bold' } : style);
+
+const richTextToHtml = (spans: RichTextSpan[]): string =>
+  spans.map(span => {
+    let html = escapeXml(span.text);
+    if (span.code) html = `<code>${html}</code>`;
+    if (span.strikethrough) html = `<s>${html}</s>`;
+    if (span.italic) html = `<em>${html}</em>`;
+    if (span.bold) html = `<strong>${html}</strong>`;
+    const href = span.href && getSafeHref(span.href);
+    return href ? `<a href="${escapeXml(href)}">${html}</a>` : html;
+  }).join('');
+
+/** Renders a standalone HTML document containing the table with inline cell styles. */
+export const toHtml = (state: TableState, title = 'Table'): string => {
+  const cols = state.columns.map(col => `<col style="width: ${col.width}px">`).join('');
+  const headerCells = state.columns.map(col => `<th>${escapeXml(col.name)}</th>`).join('');
+  const mergeAt = new Map<string, CellRange>();
+  (state.merges ?? []).forEach(merge => mergeAt.set(cellKey(merge.start.row, merge.start.col), merge));
+  const covered = getCoveredCells(state.merges ?? []);
+  const bodyRows = getExportData(state).map((row, rowIndex) => {
+    const cells = row.flatMap((cell, colIndex) => {
+      if (covered.has(cellKey(rowIndex, colIndex))) return [];
+      const merge = mergeAt.get(cellKey(rowIndex, colIndex));
+      const rowSpan = merge ? merge.end.row - merge.start.row + 1 : 1;
+      const colSpan = merge ? merge.end.col - merge.start.col + 1 : 1;
+      const spans = `${rowSpan > 1 ? ` rowspan="${rowSpan}"` : ''}${colSpan > 1 ? ` colspan="${colSpan}"` : ''}`;
+      const html = (cell.richText ? richTextToHtml(cell.richText) : escapeXml(cell.content)).replace(/\r?\n/g, '<br>');
+      const column = state.columns[colIndex];
+      return [`<td${spans} style="${escapeXml(cellStyleToCss(getExportStyle(resolveCellStyle(cell, column), column)))}">${html}</td>`];
+    });
+    return `    <tr style="height: ${state.rowHeights[rowIndex]}px">${cells.join('')}</tr>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; background-color: #262626; color: ${DEFAULT_CELL_STYLE.color}; }
+  table { border-collapse: collapse; table-layout: fixed; }
+  th, td { border: 1px solid #374151; padding: 0.5rem; text-align: left; vertical-align: top; white-space: pre-wrap; word-break: break-word; }
+  th { color: #9ca3af; font-weight: 500; }
+</style>
+</head>
+<body>
+<table>
+  <colgroup>${cols}</colgroup>
+  <thead>
+    <tr>${headerCells}</tr>
+  </thead>
+  <tbody>
+${bodyRows.join('\n')}
+  </tbody>
+</table>
+</body>
+</html>
+`;
+};
+
+// --- XLSX (SpreadsheetML) ---
+
+const PX_PER_CHARACTER = 7;
+const POINTS_PER_PX = 0.75;
+
+/** Converts a CSS color to the ARGB hex Excel expects, blending translucent colors onto white. */
+const toArgb = (color: string): string | null => {
+  const hex = /^#([\da-f]{3}|[\da-f]{6})$/i.exec(color.trim());
+  if (hex) {
+    const value = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+    return `FF${value.toUpperCase()}`;
+  }
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color.trim());
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : Number(rgb[4]);
+    const channels = [rgb[1], rgb[2], rgb[3]].map(c => Math.round(Number(c) * alpha + 255 * (1 - alpha)));
+    return `FF${channels.map(c => c.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+  }
+  return null;
+};
+
+const columnLetter = (index: number): string => {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+const buildStyles = () => {
+  const fonts: string[] = [];
+  const fills: string[] = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+  const xfs: string[] = [];
+  const fontIndex = new Map<string, number>();
+  const fillIndex = new Map<string, number>();
+  const xfIndex = new Map<string, number>();
+
+  const getFont = (color: string | null, size: number, bold: boolean) => {
+    const key = `${color}|${size}|${bold}`;
+    if (!fontIndex.has(key)) {
+      fontIndex.set(key, fonts.length);
+      const colorXml = color ? `<color rgb="${color}"/>` : '';
+      fonts.push(`<font>${bold ? '<b/>' : ''}<sz val="${size * POINTS_PER_PX}"/>${colorXml}<name val="Calibri"/></font>`);
+    }
+    return fontIndex.get(key)!;
+  };
+
+  const getFill = (color: string | null) => {
+    if (!color) return 0;
+    if (!fillIndex.has(color)) {
+      fillIndex.set(color, fills.length);
+      fills.push(`<fill><patternFill patternType="solid"><fgColor rgb="${color}"/></patternFill></fill>`);
+    }
+    return fillIndex.get(color)!;
+  };
+
+  /** Returns the cellXfs index for a cell, creating the font/fill/xf records on first use. */
+  const getStyleIndex = (style: CellStyle) => {
+    // The app's default text color is tuned for a dark background; leave it to Excel's automatic color.
+    const color = style.color === DEFAULT_CELL_STYLE.color ? null : toArgb(style.color);
+    const font = getFont(color, style.fontSize, style.fontWeight === 'bold');
+    const fill = getFill(toArgb(style.backgroundColor === 'transparent' ? '' : style.backgroundColor));
+    const key = `${font}|${fill}|${style.textAlign ?? ''}`;
+    if (!xfIndex.has(key)) {
+      xfIndex.set(key, xfs.length);
+      const horizontal = style.textAlign ? ` horizontal="${style.textAlign}"` : '';
+      xfs.push(`<xf numFmtId="0" fontId="${font}" fillId="${fill}" borderId="0" xfId="0" applyFont="1" applyFill="1" applyAlignment="1"><alignment vertical="top"${horizontal} wrapText="1"/></xf>`);
+    }
+    return xfIndex.get(key)!;
+  };
+
+  // Index 0 must exist before any cell styles are registered.
+  getStyleIndex(DEFAULT_CELL_STYLE);
+
+  const toXml = () => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="${fonts.length}">${fonts.join('')}</fonts>
+<fills count="${fills.length}">${fills.join('')}</fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="${xfs.length}">${xfs.join('')}</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+  return { getStyleIndex, toXml };
+};
+
+const buildSheet = (state: TableState, getStyleIndex: ReturnType<typeof buildStyles>['getStyleIndex']): string => {
+  const cols = state.columns
+    .map((col, i) => `<col min="${i + 1}" max="${i + 1}" width="${(col.width / PX_PER_CHARACTER).toFixed(2)}" customWidth="1"/>`)
+    .join('');
+
+  const headerStyle = getStyleIndex({ ...DEFAULT_CELL_STYLE, fontWeight: 'bold' });
+  const headerCells = state.columns
+    .map((col, i) => `<c r="${columnLetter(i)}1" t="inlineStr" s="${headerStyle}"><is><t xml:space="preserve">${escapeXml(col.name)}</t></is></c>`)
+    .join('');
+
+  const rows = getExportData(state).map((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = row.map((cell, colIndex) => {
+      const column = state.columns[colIndex];
+      const ref = `${columnLetter(colIndex)}${rowNumber}`;
+      const style = getStyleIndex(getExportStyle(resolveCellStyle(cell, column), column));
+      // Numeric formula results are written as numbers, whatever the column's type.
+      const isNumeric = column.type === 'number' || isFormula(state.tableData[rowIndex][colIndex].content);
+      // Read the way sorting and filtering read numbers, so `1,234` and `12%` stay numbers.
+      const numeric = isNumeric ? parseNumber(cell.content) : null;
+      if (numeric !== null) return `<c r="${ref}" s="${style}"><v>${numeric}</v></c>`;
+      if (!cell.content) return `<c r="${ref}" s="${style}"/>`;
+      return `<c r="${ref}" t="inlineStr" s="${style}"><is><t xml:space="preserve">${escapeXml(cell.content)}</t></is></c>`;
+    });
+    const height = (state.rowHeights[rowIndex] * POINTS_PER_PX).toFixed(2);
+    return `<row r="${rowNumber}" ht="${height}" customHeight="1">${cells.join('')}</row>`;
+  });
+
+  // Sheet rows start below the header row.
+  const merges = (state.merges ?? []).map(({ start, end }) =>
+    `<mergeCell ref="${columnLetter(start.col)}${start.row + 2}:${columnLetter(end.col)}${end.row + 2}"/>`);
+  const mergeCells = merges.length ? `<mergeCells count="${merges.length}">${merges.join('')}</mergeCells>` : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData><row r="1">${headerCells}</row>${rows.join('')}</sheetData>${mergeCells}
+</worksheet>`;
+};
+
+/** Builds an .xlsx workbook with a single sheet, keeping column widths, row heights, cell styles and merged cells. */
+export const toXlsx = (state: TableState, sheetName = 'Sheet1'): Uint8Array => {
+  const styles = buildStyles();
+  const sheet = buildSheet(state, styles.getStyleIndex);
+  const encoder = new TextEncoder();
+  const safeSheetName = escapeXml(sheetName.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`,
+    'xl/worksheets/sheet1.xml': sheet,
+    // Styles are serialized last so every style registered while building the sheet is included.
+    'xl/styles.xml': styles.toXml(),
+  };
+
+  return createZip(Object.entries(files).map(([name, content]) => ({ name, data: encoder.encode(content) })));
+};
@@ -0,0 +1,81 @@
+import { Column, ColumnFilter, FilterConjunction, TableData } from '../types';
+import { FILTER_OPERATORS } from '../constants';
+import { parseNumber } from './propertyTypes';
+
+export const createRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * A filter only takes part in filtering once it is complete: operators that
+ * compare against a value need one, and regex patterns must be valid.
+ */
+export const isFilterActive = (filter: ColumnFilter): boolean => {
+  const definition = FILTER_OPERATORS.find(op => op.operator === filter.operator);
+  if (!definition?.needsValue) return true;
+  if (filter.value === '') return false;
+  return filter.operator !== 'regex' || createRegex(filter.value) !== null;
+};
+
+const compareNumbers = (content: string, value: string, compare: (a: number, b: number) => boolean): boolean => {
+  const num = parseNumber(content);
+  const target = parseNumber(value);
+  return num !== null && target !== null && compare(num, target);
+};
+
+export const matchesFilter = (content: string, filter: ColumnFilter, column: Column): boolean => {
+  const text = content.trim();
+  // An unchecked checkbox is stored as an empty string.
+  const isEmpty = column.type === 'checkbox' ? content !== 'true' : text === '';
+  switch (filter.operator) {
+    case 'contains':
+      return text.toLowerCase().includes(filter.value.trim().toLowerCase());
+    case 'equals': {
+      const num = parseNumber(text);
+      const target = parseNumber(filter.value);
+      if (num !== null && target !== null) return num === target;
+      return text.toLowerCase() === filter.value.trim().toLowerCase();
+    }
+    case 'isEmpty':
+      return isEmpty;
+    case 'isNotEmpty':
+      return !isEmpty;
+    case 'greaterThan':
+      return compareNumbers(text, filter.value, (a, b) => a > b);
+    case 'greaterThanOrEqual':
+      return compareNumbers(text, filter.value, (a, b) => a >= b);
+    case 'lessThan':
+      return compareNumbers(text, filter.value, (a, b) => a < b);
+    case 'lessThanOrEqual':
+      return compareNumbers(text, filter.value, (a, b) => a <= b);
+    case 'regex':
+      return createRegex(filter.value)?.test(content) ?? true;
+    default:
+      return true;
+  }
+};
+
+/** Keeps the rows of `rowOrder` that satisfy the active filters, preserving their order. */
+export const filterRowOrder = (
+  rowOrder: number[],
+  tableData: TableData,
+  columns: Column[],
+  filters: ColumnFilter[],
+  conjunction: FilterConjunction
+): number[] => {
+  const active = filters
+    .filter(isFilterActive)
+    .map(filter => ({ filter, colIndex: columns.findIndex(col => col.id === filter.columnId) }))
+    .filter(({ colIndex }) => colIndex !== -1);
+  if (!active.length) return rowOrder;
+
+  return rowOrder.filter(rowIndex => {
+    const test = ({ filter, colIndex }: typeof active[number]) =>
+      matchesFilter(tableData[rowIndex][colIndex].content, filter, columns[colIndex]);
+    return conjunction === 'and' ? active.every(test) : active.some(test);
+  });
+};
@@ -0,0 +1,121 @@
+import { Cell, CellContentChange, CellPosition, Column, FindOptions, RichTextSpan, TableData } from '../types';
+import { fromSpans, normalizeSpans } from './richText';
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Builds the regex that `options` searches with, or null if there is nothing (valid) to search for. */
+export const createFindRegex = (options: FindOptions): RegExp | null => {
+  if (!options.query) return null;
+  const pattern = options.useRegex ? options.query : escapeRegex(options.query);
+  try {
+    return new RegExp(options.wholeCell ? `^(?:${pattern})$` : pattern, options.matchCase ? 'g' : 'gi');
+  } catch (error) {
+    return null;
+  }
+};
+
+const isMatch = (regex: RegExp, content: string) => {
+  regex.lastIndex = 0;
+  return regex.test(content);
+};
+
+/**
+ * Finds the cells whose content matches `regex`, in reading order of the view.
+ * Cells are searched as stored, so formulas match by their text rather than their result.
+ * Returns view positions.
+ */
+export const findMatches = (
+  tableData: TableData,
+  columns: Column[],
+  viewRows: number[],
+  regex: RegExp,
+  columnId: string | null
+): CellPosition[] => {
+  const colIndexes = columns.flatMap((column, index) => (columnId === null || column.id === columnId ? [index] : []));
+  const matches: CellPosition[] = [];
+  viewRows.forEach((dataRow, row) => {
+    colIndexes.forEach(col => {
+      const cell = tableData[dataRow]?.[col];
+      if (cell && isMatch(regex, cell.content)) matches.push({ row, col });
+    });
+  });
+  return matches;
+};
+
+/** Replaces every match of `regex` in `content`. Regex searches can refer to groups in `replacement`, e.g. `$1`. */
+export const replaceMatches = (content: string, regex: RegExp, replacement: string, useRegex: boolean) => {
+  regex.lastIndex = 0;
+  return useRegex ? content.replace(regex, replacement) : content.replace(regex, () => replacement);
+};
+
+// The text a regex replacement inserts for `match`, expanding `$&`, `$1` and the like as String.replace does.
+const expandReplacement = (replacement: string, match: RegExpMatchArray, content: string) =>
+  replacement.replace(/\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+    const start = match.index!;
+    if (key === '$') return '$';
+    if (key === '&') return match[0];
+    if (key === '`') return content.slice(0, start);
+    if (key === "'") return content.slice(start + match[0].length);
+    if (name !== undefined) return match.groups ? match.groups[name] ?? '' : token;
+    // `$12` means group 12 only if there is one; otherwise it is group 1 followed by a 2.
+    const group = Number(key) < match.length ? Number(key) : Number(key[0]);
+    if (group === 0 || group >= match.length) return token;
+    return (match[group] ?? '') + (group === Number(key) ? '' : key.slice(1));
+  });
+
+/**
+ * Replaces every match in a cell, keeping its rich text: unmatched text keeps
+ * its formatting and each replacement takes the formatting of the text it replaces.
+ */
+export const replaceCellMatches = (
+  cell: Cell, regex: RegExp, replacement: string, useRegex: boolean
+): Omit<CellContentChange, 'row' | 'col'> => {
+  if (!cell.richText) return { content: replaceMatches(cell.content, regex, replacement, useRegex) };
+  const spans: RichTextSpan[] = [];
+  // Copies the spans' text between two offsets of the content.
+  const copy = (from: number, to: number) => {
+    let offset = 0;
+    cell.richText!.forEach(span => {
+      const start = Math.max(from, offset);
+      const end = Math.min(to, offset + span.text.length);
+      if (start < end) spans.push({ ...span, text: span.text.slice(start - offset, end - offset) });
+      offset += span.text.length;
+    });
+  };
+  const formatAt = (index: number): RichTextSpan => {
+    let offset = 0;
+    for (const span of cell.richText!) {
+      offset += span.text.length;
+      if (offset > index) return span;
+    }
+    return cell.richText![cell.richText!.length - 1] ?? { text: '' };
+  };
+
+  regex.lastIndex = 0;
+  let last = 0;
+  for (const match of cell.content.matchAll(regex)) {
+    copy(last, match.index!);
+    const text = useRegex ? expandReplacement(replacement, match, cell.content) : replacement;
+    spans.push({ ...formatAt(match.index!), text });
+    last = match.index! + match[0].length;
+  }
+  copy(last, cell.content.length);
+  return fromSpans(normalizeSpans(spans));
+};
+
+/** The first match after `cell` in reading order (or before it, going backwards), wrapping around the table. */
+export const getAdjacentMatch = (matches: CellPosition[], cell: CellPosition | null, backwards: boolean): CellPosition | null => {
+  if (!matches.length) return null;
+  const isAfter = (match: CellPosition) => !cell || match.row > cell.row || (match.row === cell.row && match.col > cell.col);
+  const isBefore = (match: CellPosition) => !cell || match.row < cell.row || (match.row === cell.row && match.col < cell.col);
+  if (backwards) {
+    for (let index = matches.length - 1; index >= 0; index--) {
+      if (isBefore(matches[index])) return matches[index];
+    }
+    return matches[matches.length - 1];
+  }
+  return matches.find(isAfter) ?? matches[0];
+};
+
+export const positionsEqual = (a: CellPosition[], b: CellPosition[]) =>
+  a.length === b.length && a.every((position, index) => position.row === b[index].row && position.col === b[index].col);
@@ -0,0 +1,521 @@
+import { CellPosition, TableData } from '../types';
+import { parseNumber } from './propertyTypes';
+
+export const FORMULA_ERROR_CODES = ['#REF!', '#CYCLE!', '#VALUE!', '#DIV/0!', '#NAME?', '#ERROR!'] as const;
+
+export type FormulaErrorCode = typeof FORMULA_ERROR_CODES[number];
+
+export interface FormulaError {
+  error: FormulaErrorCode;
+}
+
+export type FormulaValue = number | string | boolean | FormulaError;
+
+export const isFormula = (content: string): boolean => content.startsWith('=') && content.length > 1;
+
+export const isFormulaError = (value: unknown): value is FormulaError =>
+  typeof value === 'object' && value !== null && 'error' in value;
+
+const fail = (error: FormulaErrorCode): never => {
+  throw { error } as FormulaError;
+};
+
+// --- A1 references ---
+
+/** 0 → "A", 25 → "Z", 26 → "AA". */
+export const columnToLetters = (col: number): string => {
+  let letters = '';
+  for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+export const lettersToColumn = (letters: string): number =>
+  letters.toUpperCase().split('').reduce((col, char) => col * 26 + char.charCodeAt(0) - 64, 0) - 1;
+
+export const cellKey = (row: number, col: number): string => `${row}:${col}`;
+
+// --- Tokenizer ---
+
+interface RefToken {
+  type: 'ref';
+  row: number;
+  col: number;
+  rowAbsolute: boolean;
+  colAbsolute: boolean;
+}
+
+type Token = (
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'error'; value: FormulaErrorCode }
+  | { type: 'op'; value: string }
+  | RefToken
+) & { start: number; end: number };
+
+const REF_PATTERN = /(\$?)([A-Za-z]{1,3})(\$?)(\d+)(?![A-Za-z0-9_(])/y;
+const NUMBER_PATTERN = /\d*\.?\d+(?:[eE][+-]?\d+)?/y;
+const IDENT_PATTERN = /[A-Za-z_][A-Za-z0-9_.]*/y;
+const ERROR_PATTERN = /#(?:REF!|CYCLE!|VALUE!|DIV\/0!|NAME\?|ERROR!)/y;
+const OPERATORS = ['<=', '>=', '<>', '+', '-', '*', '/', '^', '&', '=', '<', '>', '(', ')', ',', ':'];
+
+const matchAt = (pattern: RegExp, source: string, index: number): RegExpExecArray | null => {
+  pattern.lastIndex = index;
+  return pattern.exec(source);
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let match: RegExpExecArray | null;
+
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= source.length) fail('#ERROR!');
+        if (source[i] === '"') {
+          if (source[i + 1] !== '"') break;
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      i++;
+      tokens.push({ type: 'string', value, start, end: i });
+    } else if ((match = matchAt(NUMBER_PATTERN, source, i))) {
+      i += match[0].length;
+      tokens.push({ type: 'number', value: Number(match[0]), start, end: i });
+    } else if ((match = matchAt(REF_PATTERN, source, i))) {
+      i += match[0].length;
+      tokens.push({
+        type: 'ref',
+        col: lettersToColumn(match[2]),
+        row: Number(match[4]) - 1,
+        colAbsolute: match[1] === '$',
+        rowAbsolute: match[3] === '$',
+        start,
+        end: i,
+      });
+    } else if ((match = matchAt(IDENT_PATTERN, source, i))) {
+      i += match[0].length;
+      tokens.push({ type: 'ident', value: match[0].toUpperCase(), start, end: i });
+    } else if ((match = matchAt(ERROR_PATTERN, source, i))) {
+      i += match[0].length;
+      tokens.push({ type: 'error', value: match[0] as FormulaErrorCode, start, end: i });
+    } else {
+      const op = OPERATORS.find(candidate => source.startsWith(candidate, i));
+      if (!op) fail('#ERROR!');
+      i += op!.length;
+      tokens.push({ type: 'op', value: op!, start, end: i });
+    }
+  }
+  return tokens;
+};
+
+// --- Parser ---
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; value: FormulaErrorCode }
+  | { type: 'ref'; position: CellPosition }
+  | { type: 'range'; start: CellPosition; end: CellPosition }
+  | { type: 'unary'; operator: string; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>='];
+
+/** Parses a formula (with or without its leading "="). Throws a FormulaError on invalid syntax. */
+export const parseFormula = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula.startsWith('=') ? formula.slice(1) : formula);
+  let position = 0;
+
+  const currentOp = (): string | null => {
+    const token = tokens[position];
+    return token?.type === 'op' ? token.value : null;
+  };
+  const isOp = (value: string) => currentOp() === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) fail('#ERROR!');
+    position++;
+  };
+
+  const parseBinary = (operators: string[], parseOperand: () => FormulaNode) => (): FormulaNode => {
+    let left = parseOperand();
+    let operator = currentOp();
+    while (operator && operators.includes(operator)) {
+      position++;
+      left = { type: 'binary', operator, left, right: parseOperand() };
+      operator = currentOp();
+    }
+    return left;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) return fail('#ERROR!');
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'string':
+        return { type: 'string', value: token.value };
+      case 'error':
+        return { type: 'error', value: token.value };
+      case 'ref': {
+        const start = { row: token.row, col: token.col };
+        if (isOp(':') && tokens[position + 1]?.type === 'ref') {
+          const end = tokens[position + 1] as RefToken;
+          position += 2;
+          return { type: 'range', start, end: { row: end.row, col: end.col } };
+        }
+        return { type: 'ref', position: start };
+      }
+      case 'ident': {
+        if (isOp('(')) {
+          position++;
+          const args: FormulaNode[] = [];
+          if (!isOp(')')) {
+            args.push(parseExpression());
+            while (isOp(',')) {
+              position++;
+              args.push(parseExpression());
+            }
+          }
+          expectOp(')');
+          return { type: 'call', name: token.value, args };
+        }
+        if (token.value === 'TRUE' || token.value === 'FALSE') return { type: 'boolean', value: token.value === 'TRUE' };
+        return fail('#NAME?');
+      }
+      case 'op':
+        if (token.value === '(') {
+          const inner = parseExpression();
+          expectOp(')');
+          return inner;
+        }
+        return fail('#ERROR!');
+    }
+  };
+
+  const parsePower: () => FormulaNode = () => {
+    const base = parsePrimary();
+    if (!isOp('^')) return base;
+    position++;
+    return { type: 'binary', operator: '^', left: base, right: parseUnary() };
+  };
+
+  const parseUnary: () => FormulaNode = () => {
+    const operator = currentOp();
+    if (operator === '-' || operator === '+') {
+      position++;
+      return { type: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parseTerm = parseBinary(['*', '/'], parseUnary);
+  const parseAdditive = parseBinary(['+', '-'], parseTerm);
+  const parseConcat = parseBinary(['&'], parseAdditive);
+  const parseExpression = parseBinary(COMPARISON_OPERATORS, parseConcat);
+
+  const node = parseExpression();
+  if (position < tokens.length) fail('#ERROR!');
+  return node;
+};
+
+/** Lists every cell a formula reads. Ranges are clipped to the table bounds. */
+export const getReferencedCells = (node: FormulaNode, numRows: number, numCols: number): CellPosition[] => {
+  switch (node.type) {
+    case 'ref':
+      return [node.position];
+    case 'range': {
+      const positions: CellPosition[] = [];
+      const endRow = Math.min(Math.max(node.start.row, node.end.row), numRows - 1);
+      const endCol = Math.min(Math.max(node.start.col, node.end.col), numCols - 1);
+      for (let row = Math.min(node.start.row, node.end.row); row <= endRow; row++) {
+        for (let col = Math.min(node.start.col, node.end.col); col <= endCol; col++) {
+          positions.push({ row, col });
+        }
+      }
+      return positions;
+    }
+    case 'unary':
+      return getReferencedCells(node.operand, numRows, numCols);
+    case 'binary':
+      return [...getReferencedCells(node.left, numRows, numCols), ...getReferencedCells(node.right, numRows, numCols)];
+    case 'call':
+      return node.args.flatMap(arg => getReferencedCells(arg, numRows, numCols));
+    default:
+      return [];
+  }
+};
+
+// --- Evaluation ---
+
+type EvaluatedArg = FormulaValue | FormulaValue[];
+
+const toNumber = (value: FormulaValue): number => {
+  if (isFormulaError(value)) throw value;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value.trim() === '') return 0;
+  const num = parseNumber(value);
+  return num === null ? fail('#VALUE!') : num;
+};
+
+const toText = (value: FormulaValue): string => {
+  if (isFormulaError(value)) throw value;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return String(Number(value.toPrecision(12)));
+  return value;
+};
+
+const toBoolean = (value: FormulaValue): boolean => {
+  if (isFormulaError(value)) throw value;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const upper = value.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE' || upper === '') return false;
+  return fail('#VALUE!');
+};
+
+const toScalar = (value: EvaluatedArg): FormulaValue => {
+  if (!Array.isArray(value)) return value;
+  return value.length === 1 ? value[0] : fail('#VALUE!');
+};
+
+/** Numbers for aggregate functions: values from ranges are skipped unless numeric, direct arguments are coerced. */
+const collectNumbers = (args: EvaluatedArg[]): number[] =>
+  args.flatMap(arg => {
+    if (!Array.isArray(arg)) return [toNumber(arg)];
+    return arg.flatMap(value => {
+      if (isFormulaError(value)) throw value;
+      return typeof value === 'number' ? [value] : [];
+    });
+  });
+
+const compareValues = (left: FormulaValue, right: FormulaValue): number => {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return toText(left).localeCompare(toText(right), undefined, { sensitivity: 'base' });
+};
+
+const applyBinary = (operator: string, left: FormulaValue, right: FormulaValue): FormulaValue => {
+  switch (operator) {
+    case '+': return toNumber(left) + toNumber(right);
+    case '-': return toNumber(left) - toNumber(right);
+    case '*': return toNumber(left) * toNumber(right);
+    case '/': {
+      const divisor = toNumber(right);
+      return divisor === 0 ? fail('#DIV/0!') : toNumber(left) / divisor;
+    }
+    case '^': return toNumber(left) ** toNumber(right);
+    case '&': return toText(left) + toText(right);
+    case '=': return compareValues(left, right) === 0;
+    case '<>': return compareValues(left, right) !== 0;
+    case '<': return compareValues(left, right) < 0;
+    case '>': return compareValues(left, right) > 0;
+    case '<=': return compareValues(left, right) <= 0;
+    case '>=': return compareValues(left, right) >= 0;
+    default: return fail('#ERROR!');
+  }
+};
+
+type FormulaFunction = (args: FormulaNode[], evaluate: (node: FormulaNode) => EvaluatedArg) => FormulaValue;
+
+const eager = (fn: (args: EvaluatedArg[]) => FormulaValue): FormulaFunction =>
+  (args, evaluate) => fn(args.map(evaluate));
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  SUM: eager(args => collectNumbers(args).reduce((sum, n) => sum + n, 0)),
+  AVERAGE: eager(args => {
+    const numbers = collectNumbers(args);
+    return numbers.length ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : fail('#DIV/0!');
+  }),
+  MIN: eager(args => {
+    const numbers = collectNumbers(args);
+    return numbers.length ? numbers.reduce((result, n) => Math.min(result, n)) : 0;
+  }),
+  MAX: eager(args => {
+    const numbers = collectNumbers(args);
+    return numbers.length ? numbers.reduce((result, n) => Math.max(result, n)) : 0;
+  }),
+  COUNT: eager(args =>
+    args.flat().filter(value => typeof value === 'number').length
+  ),
+  // IF only evaluates the branch it returns.
+  IF: (args, evaluate) => {
+    if (args.length < 2 || args.length > 3) return fail('#VALUE!');
+    if (toBoolean(toScalar(evaluate(args[0])))) return toScalar(evaluate(args[1]));
+    return args.length === 3 ? toScalar(evaluate(args[2])) : false;
+  },
+  CONCAT: eager(args => args.flat().map(toText).join('')),
+  ROUND: eager(args => {
+    if (args.length < 1 || args.length > 2) return fail('#VALUE!');
+    const value = toNumber(toScalar(args[0]));
+    const factor = 10 ** (args.length === 2 ? Math.trunc(toNumber(toScalar(args[1]))) : 0);
+    // Round half away from zero, as spreadsheets do.
+    return Math.sign(value) * Math.round(Math.abs(value) * factor) / factor;
+  }),
+};
+
+/**
+ * Evaluates a parsed formula against a table of `numRows` × `numCols` cells.
+ * References outside the table are #REF!; ranges are clipped to it.
+ */
+export const evaluateFormula = (
+  node: FormulaNode,
+  numRows: number,
+  numCols: number,
+  resolve: (position: CellPosition) => FormulaValue
+): FormulaValue => {
+  const evaluate = (current: FormulaNode): EvaluatedArg => {
+    switch (current.type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        return current.value;
+      case 'error':
+        return fail(current.value);
+      case 'ref': {
+        const { row, col } = current.position;
+        if (row >= numRows || col >= numCols) return fail('#REF!');
+        const value = resolve(current.position);
+        if (isFormulaError(value)) throw value;
+        return value;
+      }
+      case 'range':
+        return getReferencedCells(current, numRows, numCols).map(resolve);
+      case 'unary': {
+        const operand = toNumber(toScalar(evaluate(current.operand)));
+        return current.operator === '-' ? -operand : operand;
+      }
+      case 'binary':
+        return applyBinary(current.operator, toScalar(evaluate(current.left)), toScalar(evaluate(current.right)));
+      case 'call': {
+        const fn = FUNCTIONS[current.name];
+        return fn ? fn(current.args, evaluate) : fail('#NAME?');
+      }
+    }
+  };
+
+  try {
+    return toScalar(evaluate(node));
+  } catch (error) {
+    if (isFormulaError(error)) return error;
+    throw error;
+  }
+};
+
+/** Reads a plain (non-formula) cell the way formulas see it. */
+export const literalValue = (content: string): FormulaValue => {
+  const trimmed = content.trim();
+  if (trimmed === '') return '';
+  const upper = trimmed.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE';
+  return parseNumber(trimmed) ?? content;
+};
+
+export const formatFormulaValue = (value: FormulaValue): string =>
+  isFormulaError(value) ? value.error : toText(value);
+
+// --- Reference shifting ---
+
+/** Maps an old row or column index to its new index, or null if it was deleted. */
+export type IndexMap = (index: number) => number | null;
+
+export const insertIndexMap = (insertIndex: number): IndexMap =>
+  index => (index >= insertIndex ? index + 1 : index);
+
+export const deleteIndexMap = (deleteIndex: number): IndexMap =>
+  index => (index === deleteIndex ? null : index > deleteIndex ? index - 1 : index);
+
+export const moveIndexMap = (fromIndex: number, toIndex: number): IndexMap => index => {
+  if (index === fromIndex) return toIndex;
+  if (fromIndex < toIndex && index > fromIndex && index <= toIndex) return index - 1;
+  if (fromIndex > toIndex && index >= toIndex && index < fromIndex) return index + 1;
+  return index;
+};
+
+const identityMap: IndexMap = index => index;
+
+const formatRef = (token: RefToken, row: number, col: number): string =>
+  `${token.colAbsolute ? '$' : ''}${columnToLetters(col)}${token.rowAbsolute ? '$' : ''}${row + 1}`;
+
+/** Maps the span of a range, shrinking it when rows or columns at its edges were deleted. */
+const mapRangeSpan = (from: number, to: number, map: IndexMap): [number, number] | null => {
+  let start = Infinity;
+  let end = -Infinity;
+  for (let index = Math.min(from, to); index <= Math.max(from, to); index++) {
+    const mapped = map(index);
+    if (mapped === null) continue;
+    start = Math.min(start, mapped);
+    end = Math.max(end, mapped);
+  }
+  return start <= end ? [start, end] : null;
+};
+
+/**
+ * Rewrites the references in a formula after rows or columns were inserted,
+ * deleted or moved. References to deleted cells become #REF!.
+ */
+export const shiftFormulaReferences = (formula: string, mapRow: IndexMap = identityMap, mapCol: IndexMap = identityMap): string => {
+  const body = formula.slice(1);
+  let tokens: Token[];
+  try {
+    tokens = tokenize(body);
+  } catch (error) {
+    return formula;
+  }
+
+  let result = '';
+  let last = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'ref') continue;
+    const next = tokens[i + 1];
+    const end = tokens[i + 2];
+    let replacement: string;
+    let replaceEnd = token.end;
+
+    if (next?.type === 'op' && next.value === ':' && end?.type === 'ref') {
+      const rows = mapRangeSpan(token.row, end.row, mapRow);
+      const cols = mapRangeSpan(token.col, end.col, mapCol);
+      replacement = rows && cols
+        ? `${formatRef(token, rows[0], cols[0])}:${formatRef(end, rows[1], cols[1])}`
+        : '#REF!';
+      replaceEnd = end.end;
+      i += 2;
+    } else {
+      const row = mapRow(token.row);
+      const col = mapCol(token.col);
+      replacement = row === null || col === null ? '#REF!' : formatRef(token, row, col);
+    }
+    result += body.slice(last, token.start) + replacement;
+    last = replaceEnd;
+  }
+  return `=${result}${body.slice(last)}`;
+};
+
+/** Applies `shiftFormulaReferences` to every formula cell, leaving other cells untouched. */
+export const shiftTableReferences = (tableData: TableData, mapRow?: IndexMap, mapCol?: IndexMap): TableData =>
+  tableData.map(row => {
+    if (!row.some(cell => isFormula(cell.content))) return row;
+    return row.map(cell => {
+      if (!isFormula(cell.content)) return cell;
+      const content = shiftFormulaReferences(cell.content, mapRow, mapCol);
+      return content === cell.content ? cell : { ...cell, content };
+    });
+  });
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { createFormulaEngine } from './formulaEngine';
+import { TableData } from '../types';
+
+const column = (contents: string[]): TableData => contents.map((content, index) => [{ id: `cell-${index}`, content }]);
+
+describe('formula engine', () => {
+  it('finds the minimum and maximum of ranges too large to spread into arguments', () => {
+    const numbers = Array.from({ length: 130000 }, (_, index) => String((index * 7919) % 130000));
+    const values = createFormulaEngine().update(column(['=MIN(A3:A130002)', '=MAX(A3:A130002)', ...numbers]));
+    expect(values.get('0:0')).toBe('0');
+    expect(values.get('1:0')).toBe('129999');
+  });
+});
@@ -0,0 +1,134 @@
+import { TableData } from '../types';
+import {
+  FormulaNode, FormulaValue, cellKey, evaluateFormula, formatFormulaValue, getReferencedCells, isFormula,
+  isFormulaError, literalValue, parseFormula,
+} from './formula';
+
+type ParsedFormula = { node: FormulaNode; precedents: string[] } | { error: FormulaValue; precedents: string[] };
+
+const parseCell = (content: string, numRows: number, numCols: number): ParsedFormula => {
+  try {
+    const node = parseFormula(content);
+    const precedents = getReferencedCells(node, numRows, numCols).map(({ row, col }) => cellKey(row, col));
+    return { node, precedents };
+  } catch (error) {
+    if (isFormulaError(error)) return { error, precedents: [] };
+    throw error;
+  }
+};
+
+/**
+ * Keeps computed values for every formula cell. Each `update` diffs the new
+ * table against the previous one and only recalculates changed formulas and
+ * the cells that depend on them; layout changes recalculate everything.
+ * Returns the display value of each formula cell, keyed by `cellKey`.
+ */
+export const createFormulaEngine = () => {
+  let data: TableData = [];
+  let formulas = new Map<string, ParsedFormula>();
+  let dependents = new Map<string, Set<string>>();
+  let values = new Map<string, FormulaValue>();
+
+  const unlink = (key: string) => {
+    formulas.get(key)?.precedents.forEach(precedent => dependents.get(precedent)?.delete(key));
+    formulas.delete(key);
+  };
+
+  const link = (key: string, content: string) => {
+    const parsed = parseCell(content, data.length, data[0]?.length ?? 0);
+    formulas.set(key, parsed);
+    parsed.precedents.forEach(precedent => {
+      if (!dependents.has(precedent)) dependents.set(precedent, new Set());
+      dependents.get(precedent)!.add(key);
+    });
+  };
+
+  const evaluateAll = (keys: Iterable<string>) => {
+    const visiting = new Set<string>();
+    const numRows = data.length;
+    const numCols = data[0]?.length ?? 0;
+
+    const valueOf = (key: string, row: number, col: number): FormulaValue => {
+      const parsed = formulas.get(key);
+      if (!parsed) return literalValue(data[row][col].content);
+      const cached = values.get(key);
+      if (cached !== undefined) return cached;
+      if (visiting.has(key)) return { error: '#CYCLE!' };
+
+      visiting.add(key);
+      const value = 'node' in parsed
+        ? evaluateFormula(parsed.node, numRows, numCols, position => valueOf(cellKey(position.row, position.col), position.row, position.col))
+        : parsed.error;
+      visiting.delete(key);
+      values.set(key, value);
+      return value;
+    };
+
+    for (const key of keys) {
+      const [row, col] = key.split(':').map(Number);
+      valueOf(key, row, col);
+    }
+  };
+
+  const rebuild = (tableData: TableData) => {
+    data = tableData;
+    formulas = new Map();
+    dependents = new Map();
+    values = new Map();
+    tableData.forEach((row, rowIndex) => row.forEach((cell, colIndex) => {
+      if (isFormula(cell.content)) link(cellKey(rowIndex, colIndex), cell.content);
+    }));
+    evaluateAll(formulas.keys());
+  };
+
+  const recalculate = (tableData: TableData) => {
+    const previous = data;
+    data = tableData;
+    const changed: string[] = [];
+    tableData.forEach((row, rowIndex) => {
+      if (row === previous[rowIndex]) return;
+      row.forEach((cell, colIndex) => {
+        if (cell.content === previous[rowIndex][colIndex].content) return;
+        const key = cellKey(rowIndex, colIndex);
+        changed.push(key);
+        unlink(key);
+        if (isFormula(cell.content)) link(key, cell.content);
+      });
+    });
+    if (!changed.length) return;
+
+    // Everything downstream of a changed cell has to be recomputed.
+    const dirty = new Set(changed);
+    const queue = [...changed];
+    while (queue.length) {
+      dependents.get(queue.pop()!)?.forEach(dependent => {
+        if (dirty.has(dependent)) return;
+        dirty.add(dependent);
+        queue.push(dependent);
+      });
+    }
+    dirty.forEach(key => values.delete(key));
+    evaluateAll(Array.from(dirty).filter(key => formulas.has(key)));
+  };
+
+  const update = (tableData: TableData): Map<string, string> => {
+    const isSameLayout = tableData.length === data.length && (tableData[0]?.length ?? 0) === (data[0]?.length ?? 0);
+    if (isSameLayout) recalculate(tableData);
+    else rebuild(tableData);
+
+    const display = new Map<string, string>();
+    values.forEach((value, key) => display.set(key, formatFormulaValue(value)));
+    return display;
+  };
+
+  return { update };
+};
+
+export type FormulaEngine = ReturnType<typeof createFormulaEngine>;
+
+/** The table as it is displayed: formula cells hold their results from `update`. */
+export const withFormulaValues = (tableData: TableData, formulaValues: Map<string, string>): TableData =>
+  !formulaValues.size ? tableData : tableData.map((row, rowIndex) => row.map((cell, colIndex) => {
+    const value = formulaValues.get(cellKey(rowIndex, colIndex));
+    return value === undefined ? cell : { ...cell, content: value };
+  }));
@@ -0,0 +1,72 @@
+const HISTORY_LIMIT = 100;
+
+export type Updater<T> = T | ((prev: T) => T);
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastBatchId: number | null;
+}
+
+export type HistoryAction<T> =
+  | { type: 'set'; updater: Updater<T>; batchId: number | null }
+  | { type: 'reset'; value: T }
+  | { type: 'replace'; value: T }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+/**
+ * Bounded undo/redo history. `set` actions sharing a batch id collapse into a
+ * single entry; `replace` changes the present without recording an entry.
+ */
+export const historyReducer = <T,>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'set': {
+      const next = typeof action.updater === 'function'
+        ? (action.updater as (prev: T) => T)(state.present)
+        : action.updater;
+      if (Object.is(next, state.present)) return state;
+      // Consecutive updates within the same batch collapse into a single undo step.
+      if (action.batchId !== null && action.batchId === state.lastBatchId) {
+        return { ...state, present: next };
+      }
+      return {
+        past: [...state.past, state.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        lastBatchId: action.batchId,
+      };
+    }
+    case 'reset':
+      return { past: [], present: action.value, future: [], lastBatchId: null };
+    case 'replace': {
+      if (Object.is(action.value, state.present)) return state;
+      // Going back to the last undo step takes that step back, e.g. when a change is rejected.
+      const isPrevious = state.past.length > 0 && Object.is(state.past[state.past.length - 1], action.value);
+      return { past: isPrevious ? state.past.slice(0, -1) : state.past, present: action.value, future: state.future, lastBatchId: null };
+    }
+    case 'undo': {
+      if (!state.past.length) return state;
+      const previous = state.past[state.past.length - 1];
+      return {
+        past: state.past.slice(0, -1),
+        present: previous,
+        future: [state.present, ...state.future],
+        lastBatchId: null,
+      };
+    }
+    case 'redo': {
+      if (!state.future.length) return state;
+      const [next, ...future] = state.future;
+      return {
+        past: [...state.past, state.present],
+        present: next,
+        future,
+        lastBatchId: null,
+      };
+    }
+    default:
+      return state;
+  }
+};
@@ -0,0 +1,132 @@
+import { CellPosition, CellRange } from '../types';
+import { IndexMap } from './formula';
+
+// Merges are stored as normalized ranges (start is the top-left cell) that
+// never overlap. The top-left cell is shown across the whole block; the other
+// cells keep their content, which reappears when the block is unmerged.
+
+export const rangesIntersect = (a: CellRange, b: CellRange) =>
+  a.start.row <= b.end.row && b.start.row <= a.end.row && a.start.col <= b.end.col && b.start.col <= a.end.col;
+
+const isSingleCell = ({ start, end }: CellRange) => start.row === end.row && start.col === end.col;
+
+/** Whether `range` is a normalized block of more than one cell inside a table of the given size. */
+export const isValidMerge = (range: CellRange, numRows: number, numCols: number) => {
+  const { start, end } = range;
+  return [start.row, start.col, end.row, end.col].every(Number.isInteger) &&
+    start.row >= 0 && start.col >= 0 && start.row <= end.row && start.col <= end.col &&
+    end.row < numRows && end.col < numCols && !isSingleCell(range);
+};
+
+/** Grows `range` until no merge is left partly inside it. */
+export const expandToMerges = (range: CellRange, merges: CellRange[]): CellRange => {
+  let merged = range;
+  let grown = true;
+  while (grown) {
+    grown = false;
+    merges.forEach(merge => {
+      if (!rangesIntersect(merge, merged)) return;
+      const start = { row: Math.min(merged.start.row, merge.start.row), col: Math.min(merged.start.col, merge.start.col) };
+      const end = { row: Math.max(merged.end.row, merge.end.row), col: Math.max(merged.end.col, merge.end.col) };
+      if (start.row === merged.start.row && start.col === merged.start.col && end.row === merged.end.row && end.col === merged.end.col) return;
+      merged = { start, end };
+      grown = true;
+    });
+  }
+  return merged;
+};
+
+/** Adds a merge of `range`, absorbing the merges it touches. */
+export const addMerge = (merges: CellRange[], range: CellRange): CellRange[] => {
+  const merged = expandToMerges(range, merges);
+  return [...merges.filter(merge => !rangesIntersect(merge, merged)), merged];
+};
+
+/** Removes the merges that touch any of `ranges`. */
+export const removeMerges = (merges: CellRange[], ranges: CellRange[]): CellRange[] =>
+  merges.filter(merge => !ranges.some(range => rangesIntersect(merge, range)));
+
+// Maps the rows (or columns) `start..end` through `map`. A row inserted inside
+// the span widens it; one deleted from it narrows it. If moving rows breaks the
+// span apart, it no longer describes one block and null is returned.
+const mapSpan = (start: number, end: number, map: IndexMap, inserted: number | null): [number, number] | null => {
+  const mapped: number[] = [];
+  for (let index = start; index <= end; index++) {
+    const newIndex = map(index);
+    if (newIndex !== null) mapped.push(newIndex);
+  }
+  if (!mapped.length) return null;
+  const min = mapped.reduce((a, b) => Math.min(a, b));
+  const max = mapped.reduce((a, b) => Math.max(a, b));
+  const holes = max - min + 1 - mapped.length - (inserted !== null && inserted > min && inserted < max ? 1 : 0);
+  return holes === 0 ? [min, max] : null;
+};
+
+/** Moves `range` along with a change to the table's rows and columns. Returns null if the range breaks apart. */
+export const mapRange = (
+  range: CellRange, rowMap: IndexMap, colMap: IndexMap, insertedRow: number | null, insertedCol: number | null
+): CellRange | null => {
+  const rows = mapSpan(range.start.row, range.end.row, rowMap, insertedRow);
+  const cols = mapSpan(range.start.col, range.end.col, colMap, insertedCol);
+  return rows && cols ? { start: { row: rows[0], col: cols[0] }, end: { row: rows[1], col: cols[1] } } : null;
+};
+
+/** `mapRange` for every merge, dropping the ones that break apart or shrink to a single cell. */
+export const mapMerges = (
+  merges: CellRange[], rowMap: IndexMap, colMap: IndexMap, insertedRow: number | null, insertedCol: number | null
+): CellRange[] =>
+  merges.flatMap(merge => {
+    const mapped = mapRange(merge, rowMap, colMap, insertedRow, insertedCol);
+    return mapped && !isSingleCell(mapped) ? [mapped] : [];
+  });
+
+// --- View ---
+
+/**
+ * The merges as they appear in the view, in view rows. A merge is only shown
+ * while its rows are displayed one after another, in order; sorting or
+ * filtering that separates them shows its cells on their own.
+ */
+export const getViewMerges = (merges: CellRange[], viewRows: number[]): CellRange[] => {
+  if (!merges.length) return merges;
+  const viewIndex = new Map(viewRows.map((dataRow, row) => [dataRow, row]));
+  return merges.flatMap(({ start, end }) => {
+    const row = viewIndex.get(start.row);
+    if (row === undefined) return [];
+    for (let offset = 1; offset <= end.row - start.row; offset++) {
+      if (viewRows[row + offset] !== start.row + offset) return [];
+    }
+    return [{ start: { row, col: start.col }, end: { row: row + end.row - start.row, col: end.col } }];
+  });
+};
+
+/** Converts a range of view rows to data rows, or returns null if those rows aren't consecutive in the data. */
+export const toDataRange = (range: CellRange, viewRows: number[]): CellRange | null => {
+  const { start, end } = range;
+  for (let row = start.row + 1; row <= end.row; row++) {
+    if (viewRows[row] !== viewRows[start.row] + row - start.row) return null;
+  }
+  return { start: { row: viewRows[start.row], col: start.col }, end: { row: viewRows[end.row], col: end.col } };
+};
+
+export const findMerge = (merges: CellRange[], row: number, col: number): CellRange | undefined =>
+  merges.find(({ start, end }) => row >= start.row && row <= end.row && col >= start.col && col <= end.col);
+
+/** The cell that stands for `cell`: the top-left cell of its merge, if it is in one. */
+export const snapToMerge = (merges: CellRange[], cell: CellPosition): CellPosition =>
+  findMerge(merges, cell.row, cell.col)?.start ?? cell;
+
+/** The cell Tab moves to from `cell`, in reading order, wrapping around and stepping over merged-away cells. */
+export const getTabTarget = (
+  merges: CellRange[], cell: CellPosition, numRows: number, numCols: number, backwards: boolean
+): CellPosition => {
+  const total = numRows * numCols;
+  let index = cell.row * numCols + cell.col;
+  for (let step = 0; step < total; step++) {
+    index = (index + (backwards ? total - 1 : 1)) % total;
+    const next = { row: Math.floor(index / numCols), col: index % numCols };
+    const merge = findMerge(merges, next.row, next.col);
+    if (!merge || (merge.start.row === next.row && merge.start.col === next.col)) return next;
+  }
+  return cell;
+};
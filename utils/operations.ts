@@ -0,0 +1,443 @@
+import { Cell, CellPosition, CellRange, Column, RichTextSpan, TableState, TableOperation } from '../types';
+import { convertContent, collectSelectOptions } from './propertyTypes';
+import { IndexMap, deleteIndexMap, insertIndexMap, moveIndexMap, shiftTableReferences } from './formula';
+import { addMerge, isValidMerge, mapMerges, mapRange, removeMerges } from './merges';
+import { withoutOwnStyle } from './cellStyle';
+
+export const moveItem = <T,>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  const newItems = [...items];
+  const [moved] = newItems.splice(fromIndex, 1);
+  newItems.splice(toIndex, 0, moved);
+  return newItems;
+};
+
+const updateCells = (state: TableState, positions: CellPosition[], update: (cell: Cell, index: number) => Cell): TableState => {
+  const tableData = [...state.tableData];
+  positions.forEach(({ row, col }, index) => {
+    if (!tableData[row]?.[col]) return;
+    // Only copy the rows that change, so the rest keep their identity.
+    if (tableData[row] === state.tableData[row]) tableData[row] = [...tableData[row]];
+    tableData[row][col] = update(tableData[row][col], index);
+  });
+  return { ...state, tableData };
+};
+
+// Rich text belongs to the content it formats, so it is replaced along with it.
+const withContent = ({ richText, ...cell }: Cell, content: string, newRichText?: RichTextSpan[]): Cell =>
+  newRichText ? { ...cell, content, richText: newRichText } : { ...cell, content };
+
+const updateColumn = (state: TableState, colIndex: number, changes: Partial<Column>): TableState => {
+  if (!state.columns[colIndex]) return state;
+  const columns = [...state.columns];
+  columns[colIndex] = { ...columns[colIndex], ...changes };
+  return { ...state, columns };
+};
+
+const isPermutation = (order: number[], length: number) =>
+  order.length === length && new Set(order).size === length && order.every(index => Number.isInteger(index) && index >= 0 && index < length);
+
+const applyToTable = (state: TableState, operation: TableOperation): TableState => {
+  const { tableData, columns, rowHeights } = state;
+
+  switch (operation.type) {
+    case 'cellContentChanged': {
+      const { row, col, content, richText } = operation;
+      return updateCells(state, [{ row, col }], cell => withContent(cell, content, richText));
+    }
+    case 'cellsContentChanged': {
+      const { cells } = operation;
+      return updateCells(state, cells, (cell, index) => withContent(cell, cells[index].content, cells[index].richText));
+    }
+    case 'cellStyleChanged':
+      return updateCells(state, operation.cells, cell => ({ ...cell, ...operation.style }));
+    case 'cellsCleared':
+      return updateCells(state, operation.cells, cell => withContent(cell, ''));
+    case 'cellsStyleReset':
+      return updateCells(state, operation.cells, withoutOwnStyle);
+    case 'cellsPasted': {
+      const { cells } = operation;
+      return updateCells(state, cells, (cell, index) => withContent({ ...cell, ...cells[index].style }, cells[index].content, cells[index].richText));
+    }
+    case 'cellsMerged':
+      if (!isValidMerge(operation.range, tableData.length, columns.length)) return state;
+      return { ...state, merges: addMerge(state.merges ?? [], operation.range) };
+    case 'cellsUnmerged': {
+      const merges = removeMerges(state.merges ?? [], operation.ranges);
+      return merges.length === (state.merges?.length ?? 0) ? state : { ...state, merges };
+    }
+
+    case 'rowInserted': {
+      const { index, cells, height } = operation;
+      if (index < 0 || index > tableData.length || cells.length !== columns.length) return state;
+      // Formulas only need shifting when rows move down underneath them.
+      const newTableData = index < tableData.length ? shiftTableReferences(tableData, insertIndexMap(index)) : [...tableData];
+      newTableData.splice(index, 0, cells);
+      const newRowHeights = [...rowHeights];
+      newRowHeights.splice(index, 0, height);
+      return { ...state, tableData: newTableData, rowHeights: newRowHeights };
+    }
+    case 'rowDeleted': {
+      const { index } = operation;
+      if (tableData.length <= 1 || !tableData[index]) return state;
+      return {
+        ...state,
+        tableData: shiftTableReferences(tableData, deleteIndexMap(index)).filter((_, i) => i !== index),
+        rowHeights: rowHeights.filter((_, i) => i !== index),
+      };
+    }
+    case 'rowMoved': {
+      const { from, to } = operation;
+      if (from === to || !tableData[from] || !tableData[to]) return state;
+      return {
+        ...state,
+        tableData: moveItem(shiftTableReferences(tableData, moveIndexMap(from, to)), from, to),
+        rowHeights: moveItem(rowHeights, from, to),
+      };
+    }
+    case 'rowsSorted': {
+      const { order } = operation;
+      if (!isPermutation(order, tableData.length) || order.every((dataRow, index) => dataRow === index)) return state;
+      const shifted = shiftTableReferences(tableData, inverseOrderMap(order));
+      return {
+        ...state,
+        tableData: order.map(dataRow => shifted[dataRow]),
+        rowHeights: order.map(dataRow => rowHeights[dataRow]),
+      };
+    }
+    case 'rowResized': {
+      const { index, height } = operation;
+      if (rowHeights[index] === undefined) return state;
+      const newRowHeights = [...rowHeights];
+      newRowHeights[index] = height;
+      return { ...state, rowHeights: newRowHeights };
+    }
+
+    case 'columnInserted': {
+      const { index, column, cells } = operation;
+      if (index < 0 || index > columns.length || cells.length !== tableData.length) return state;
+      const newColumns = [...columns];
+      newColumns.splice(index, 0, column);
+      const shifted = index < columns.length ? shiftTableReferences(tableData, undefined, insertIndexMap(index)) : tableData;
+      const newTableData = shifted.map((row, rowIndex) => {
+        const newRow = [...row];
+        newRow.splice(index, 0, cells[rowIndex]);
+        return newRow;
+      });
+      return { ...state, tableData: newTableData, columns: newColumns };
+    }
+    case 'columnDeleted': {
+      const { index } = operation;
+      if (columns.length <= 1 || !columns[index]) return state;
+      return {
+        ...state,
+        columns: columns.filter((_, i) => i !== index),
+        tableData: shiftTableReferences(tableData, undefined, deleteIndexMap(index))
+          .map(row => row.filter((_, i) => i !== index)),
+      };
+    }
+    case 'columnMoved': {
+      const { from, to } = operation;
+      if (from === to || !columns[from] || !columns[to]) return state;
+      return {
+        ...state,
+        columns: moveItem(columns, from, to),
+        tableData: shiftTableReferences(tableData, undefined, moveIndexMap(from, to))
+          .map(row => moveItem(row, from, to)),
+      };
+    }
+    case 'columnRenamed':
+      return updateColumn(state, operation.index, { name: operation.name });
+    case 'columnHeaderChanged':
+      return updateColumn(state, operation.index, { isHeader: operation.isHeader });
+    case 'columnTypeChanged': {
+      const { index, columnType } = operation;
+      const column = columns[index];
+      if (!column || column.type === columnType) return state;
+
+      const converted = tableData.map(row => convertContent(row[index].content, column.type, columnType));
+      const options = operation.options ?? (columnType === 'select' || columnType === 'multiSelect'
+        ? collectSelectOptions(converted, columnType, column.options)
+        : column.options);
+
+      const newColumns = [...columns];
+      newColumns[index] = { ...column, type: columnType, options };
+      const newTableData = tableData.map((row, rowIndex) => {
+        const newRow = [...row];
+        newRow[index] = withContent(newRow[index], converted[rowIndex]);
+        return newRow;
+      });
+      return { ...state, tableData: newTableData, columns: newColumns };
+    }
+    case 'columnNumberFormatChanged':
+      return updateColumn(state, operation.index, { numberFormat: operation.numberFormat });
+    case 'columnOptionsChanged':
+      return updateColumn(state, operation.index, { options: operation.options });
+    case 'columnFormatRulesChanged':
+      return updateColumn(state, operation.index, { formatRules: operation.formatRules });
+    case 'columnResized':
+      return updateColumn(state, operation.index, { width: operation.width });
+    case 'columnStyleChanged': {
+      const column = columns[operation.index];
+      return column ? updateColumn(state, operation.index, { style: { ...column.style, ...operation.style } }) : state;
+    }
+    case 'columnsFrozen': {
+      const { count } = operation;
+      if (!Number.isInteger(count) || count < 0 || count > columns.length || count === (state.frozenColumns ?? 0)) return state;
+      return { ...state, frozenColumns: count };
+    }
+    case 'tableReplaced':
+      return operation.state;
+  }
+};
+
+// --- Transformation ---
+
+type Axis = 'row' | 'column';
+
+const inverseOrderMap = (order: number[]): IndexMap => {
+  const positions: number[] = [];
+  order.forEach((dataRow, index) => { positions[dataRow] = index; });
+  return index => positions[index] ?? null;
+};
+
+/** How `operation` moves the existing rows or columns, or null if it doesn't. */
+const getIndexMap = (operation: TableOperation, axis: Axis): IndexMap | null => {
+  switch (operation.type) {
+    case 'rowInserted': return axis === 'row' ? insertIndexMap(operation.index) : null;
+    case 'rowDeleted': return axis === 'row' ? deleteIndexMap(operation.index) : null;
+    case 'rowMoved': return axis === 'row' ? moveIndexMap(operation.from, operation.to) : null;
+    case 'rowsSorted': return axis === 'row' ? inverseOrderMap(operation.order) : null;
+    case 'columnInserted': return axis === 'column' ? insertIndexMap(operation.index) : null;
+    case 'columnDeleted': return axis === 'column' ? deleteIndexMap(operation.index) : null;
+    case 'columnMoved': return axis === 'column' ? moveIndexMap(operation.from, operation.to) : null;
+    default: return null;
+  }
+};
+
+const identityMap: IndexMap = index => index;
+
+// The index a row or column is inserted at, or null if `operation` doesn't insert one.
+const getInsertedIndex = (operation: TableOperation, axis: Axis): number | null => {
+  if (operation.type === 'rowInserted') return axis === 'row' ? operation.index : null;
+  if (operation.type === 'columnInserted') return axis === 'column' ? operation.index : null;
+  return null;
+};
+
+// Moves, widens, narrows or drops the merges along with an operation that changes the rows or columns.
+const mapMergesThrough = (merges: CellRange[], operation: TableOperation): CellRange[] => {
+  const rowMap = getIndexMap(operation, 'row');
+  const colMap = getIndexMap(operation, 'column');
+  if (!rowMap && !colMap) return merges;
+  return mapMerges(
+    merges, rowMap ?? identityMap, colMap ?? identityMap, getInsertedIndex(operation, 'row'), getInsertedIndex(operation, 'column')
+  );
+};
+
+// Keeps the same columns frozen when columns are added, removed or moved across the frozen edge.
+const mapFrozenColumns = (count: number, operation: TableOperation): number => {
+  switch (operation.type) {
+    case 'columnInserted': return operation.index < count ? count + 1 : count;
+    case 'columnDeleted': return operation.index < count ? count - 1 : count;
+    case 'columnMoved': {
+      const { from, to } = operation;
+      if (from < count && to >= count) return count - 1;
+      if (from >= count && to < count) return count + 1;
+      return count;
+    }
+    default: return count;
+  }
+};
+
+/** Returns the table with `operation` applied. Operations that don't fit the table (e.g. out of range) leave it unchanged. */
+export const applyOperation = (state: TableState, operation: TableOperation): TableState => {
+  let newState = applyToTable(state, operation);
+  if (newState === state) return newState;
+  if (newState.merges?.length) newState = { ...newState, merges: mapMergesThrough(newState.merges, operation) };
+  if (newState.frozenColumns) newState = { ...newState, frozenColumns: mapFrozenColumns(newState.frozenColumns, operation) };
+  return newState;
+};
+
+// Where a row or column inserted at `index` goes once `against` has been applied.
+// Of two insertions at the same place, the one with priority comes first.
+const transformInsertIndex = (index: number, against: TableOperation, axis: Axis, hasPriority: boolean): number => {
+  const isRow = axis === 'row';
+  switch (against.type) {
+    case 'rowInserted':
+    case 'columnInserted':
+      if ((against.type === 'rowInserted') !== isRow) return index;
+      return index > against.index || (index === against.index && !hasPriority) ? index + 1 : index;
+    case 'rowDeleted':
+    case 'columnDeleted':
+      if ((against.type === 'rowDeleted') !== isRow) return index;
+      return index > against.index ? index - 1 : index;
+    case 'rowMoved':
+    case 'columnMoved': {
+      if ((against.type === 'rowMoved') !== isRow) return index;
+      const removed = index > against.from ? index - 1 : index;
+      return removed > against.to ? removed + 1 : removed;
+    }
+    default:
+      return index;
+  }
+};
+
+// The cell where an inserted row and an inserted column cross. Both sides of a
+// concurrent insertion create it, so its id is derived from the two operations.
+const createCrossingCell = (column: Column, rowCells: Cell[]): Cell => ({
+  id: `${column.id}:${rowCells[0]?.id ?? ''}`,
+  content: '',
+});
+
+// Moves that don't fit the table are skipped when applied, so they are skipped here too.
+const moveCells = (cells: Cell[], from: number, to: number) =>
+  from !== to && cells[from] && cells[to] ? moveItem(cells, from, to) : cells;
+
+// Keeps the cells an inserted row carries (one per column) in step with column changes.
+const transformRowCells = (cells: Cell[], against: TableOperation): Cell[] => {
+  switch (against.type) {
+    case 'columnInserted': {
+      const newCells = [...cells];
+      newCells.splice(against.index, 0, createCrossingCell(against.column, cells));
+      return newCells;
+    }
+    case 'columnDeleted': return cells.filter((_, i) => i !== against.index);
+    case 'columnMoved': return moveCells(cells, against.from, against.to);
+    default: return cells;
+  }
+};
+
+// Keeps the cells an inserted column carries (one per row) in step with row changes.
+const transformColumnCells = (column: Column, cells: Cell[], against: TableOperation): Cell[] => {
+  switch (against.type) {
+    case 'rowInserted': {
+      const newCells = [...cells];
+      newCells.splice(against.index, 0, createCrossingCell(column, against.cells));
+      return newCells;
+    }
+    case 'rowDeleted': return cells.filter((_, i) => i !== against.index);
+    case 'rowMoved': return moveCells(cells, against.from, against.to);
+    case 'rowsSorted': return isPermutation(against.order, cells.length) ? against.order.map(dataRow => cells[dataRow]) : cells;
+    default: return cells;
+  }
+};
+
+const transformPositions = <T extends CellPosition,>(cells: T[], rowMap: IndexMap, colMap: IndexMap): T[] => {
+  const transformed: T[] = [];
+  cells.forEach(cell => {
+    const row = rowMap(cell.row);
+    const col = colMap(cell.col);
+    if (row !== null && col !== null) transformed.push({ ...cell, row, col });
+  });
+  return transformed;
+};
+
+/**
+ * Rewrites `operation` so it can be applied after `against`, when both were made
+ * to the same table. Returns null when the operation no longer applies, e.g. an
+ * edit to a row that `against` deleted. `hasPriority` breaks ties between the
+ * two: it should be true when `operation` comes first in the agreed order.
+ */
+export const transformOperation = (operation: TableOperation, against: TableOperation, hasPriority: boolean): TableOperation | null => {
+  // A replaced table has nothing left to apply an edit to. Of two replacements, the later one wins.
+  if (against.type === 'tableReplaced') return operation.type === 'tableReplaced' && !hasPriority ? operation : null;
+  const rowMap = getIndexMap(against, 'row') ?? identityMap;
+  const colMap = getIndexMap(against, 'column') ?? identityMap;
+
+  switch (operation.type) {
+    case 'cellContentChanged': {
+      const row = rowMap(operation.row);
+      const col = colMap(operation.col);
+      return row === null || col === null ? null : { ...operation, row, col };
+    }
+    case 'cellStyleChanged':
+    case 'cellsCleared':
+    case 'cellsStyleReset': {
+      const cells = transformPositions(operation.cells, rowMap, colMap);
+      return cells.length ? { ...operation, cells } : null;
+    }
+    case 'cellsMerged': {
+      const range = mapRange(operation.range, rowMap, colMap, getInsertedIndex(against, 'row'), getInsertedIndex(against, 'column'));
+      return range ? { ...operation, range } : null;
+    }
+    case 'cellsUnmerged': {
+      const ranges = operation.ranges.flatMap(range => {
+        const mapped = mapRange(range, rowMap, colMap, getInsertedIndex(against, 'row'), getInsertedIndex(against, 'column'));
+        return mapped ? [mapped] : [];
+      });
+      return ranges.length ? { ...operation, ranges } : null;
+    }
+    case 'cellsContentChanged':
+    case 'cellsPasted': {
+      const cells = transformPositions(operation.cells, rowMap, colMap);
+      return cells.length ? { ...operation, cells } : null;
+    }
+
+    case 'rowInserted':
+      return {
+        ...operation,
+        index: transformInsertIndex(operation.index, against, 'row', hasPriority),
+        cells: transformRowCells(operation.cells, against),
+      };
+    case 'rowDeleted':
+    case 'rowResized': {
+      const index = rowMap(operation.index);
+      return index === null ? null : { ...operation, index };
+    }
+    case 'rowMoved': {
+      // Sorting decides the order of every row, so it overrides a concurrent move.
+      if (against.type === 'rowsSorted') return null;
+      const from = rowMap(operation.from);
+      return from === null ? null : { ...operation, from, to: rowMap(operation.to) ?? operation.to };
+    }
+    case 'rowsSorted': {
+      const { order } = operation;
+      switch (against.type) {
+        case 'rowInserted': {
+          // The new row keeps its place; the sorted rows go around it.
+          const newOrder = order.map(insertIndexMap(against.index));
+          newOrder.splice(against.index, 0, against.index);
+          return { ...operation, order: newOrder };
+        }
+        case 'rowDeleted':
+          return { ...operation, order: order.filter(dataRow => dataRow !== against.index).map(dataRow => dataRow - (dataRow > against.index ? 1 : 0)) };
+        case 'rowMoved':
+          return { ...operation, order: order.map(dataRow => rowMap(dataRow)!) };
+        case 'rowsSorted': {
+          // The later of two sorts decides the order.
+          if (hasPriority) return null;
+          const positions = inverseOrderMap(against.order);
+          return { ...operation, order: order.map(dataRow => positions(dataRow)!) };
+        }
+        default:
+          return operation;
+      }
+    }
+
+    case 'columnInserted':
+      return {
+        ...operation,
+        index: transformInsertIndex(operation.index, against, 'column', hasPriority),
+        cells: transformColumnCells(operation.column, operation.cells, against),
+      };
+    case 'columnMoved': {
+      const from = colMap(operation.from);
+      return from === null ? null : { ...operation, from, to: colMap(operation.to) ?? operation.to };
+    }
+    case 'columnDeleted':
+    case 'columnRenamed':
+    case 'columnHeaderChanged':
+    case 'columnTypeChanged':
+    case 'columnNumberFormatChanged':
+    case 'columnOptionsChanged':
+    case 'columnFormatRulesChanged':
+    case 'columnResized':
+    case 'columnStyleChanged': {
+      const index = colMap(operation.index);
+      return index === null ? null : { ...operation, index };
+    }
+    case 'columnsFrozen':
+      return { ...operation, count: mapFrozenColumns(operation.count, against) };
+    case 'tableReplaced':
+      return operation;
+  }
+};
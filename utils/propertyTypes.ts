@@ -0,0 +1,123 @@
+import { ColumnType, NumberFormat, SelectOption } from '../types';
+import { SELECT_OPTION_COLORS } from '../constants';
+import { isFormula } from './formula';
+
+const CHECKED_VALUES = ['true', 'yes', 'y', '1', 'x', 'checked', '✓', '✔'];
+
+// --- Number ---
+
+export const parseNumber = (value: string): number | null => {
+  const cleaned = value.trim().replace(/[,\s$%]/g, '');
+  if (cleaned === '') return null;
+  const num = Number(cleaned);
+  return isNaN(num) ? null : num;
+};
+
+export const formatNumber = (content: string, format: NumberFormat = 'number'): string => {
+  const num = parseNumber(content);
+  if (num === null) return content;
+  switch (format) {
+    case 'commas':
+      return num.toLocaleString(undefined, { maximumFractionDigits: 10 });
+    case 'percent':
+      return `${num.toLocaleString(undefined, { maximumFractionDigits: 10 })}%`;
+    case 'dollar':
+      return num.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+    case 'number':
+    default:
+      return String(num);
+  }
+};
+
+// --- Date ---
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toIsoDate = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const date = new Date(trimmed);
+  if (isNaN(date.getTime())) return '';
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const formatDate = (content: string): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(content);
+  if (!match) return content;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+// --- Checkbox ---
+
+export const isChecked = (content: string): boolean => CHECKED_VALUES.includes(content.trim().toLowerCase());
+
+// --- Select / Multi-select ---
+
+export const splitMultiSelect = (content: string): string[] => {
+  const values = content.split(',').map(v => v.trim()).filter(Boolean);
+  return Array.from(new Set(values));
+};
+
+export const joinMultiSelect = (values: string[]): string => values.join(', ');
+
+export const createSelectOption = (name: string, existing: SelectOption[]): SelectOption => ({
+  id: crypto.randomUUID(),
+  name,
+  color: SELECT_OPTION_COLORS[existing.length % SELECT_OPTION_COLORS.length],
+});
+
+/**
+ * Returns the column's options extended with any value found in `contents`
+ * that does not have an option yet.
+ */
+export const collectSelectOptions = (contents: string[], type: ColumnType, existing: SelectOption[] = []): SelectOption[] => {
+  const options = [...existing];
+  contents.forEach(content => {
+    if (isFormula(content)) return;
+    const values = type === 'multiSelect' ? splitMultiSelect(content) : [content.trim()].filter(Boolean);
+    values.forEach(name => {
+      if (!options.some(o => o.name === name)) options.push(createSelectOption(name, options));
+    });
+  });
+  return options;
+};
+
+// --- URL ---
+
+export const toHref = (content: string): string => {
+  const trimmed = content.trim();
+  return /^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// --- Conversion ---
+
+/**
+ * Converts a cell's stored content from one property type to another.
+ * Values that cannot be represented in the target type become empty;
+ * formulas are kept as they are.
+ */
+export const convertContent = (content: string, from: ColumnType, to: ColumnType): string => {
+  if (from === to || isFormula(content)) return content;
+  const text = from === 'checkbox' ? (isChecked(content) ? 'Yes' : '') : content.trim();
+
+  switch (to) {
+    case 'number': {
+      const num = parseNumber(text);
+      return num === null ? '' : String(num);
+    }
+    case 'date':
+      return toIsoDate(text);
+    case 'checkbox':
+      return isChecked(text) ? 'true' : '';
+    case 'select':
+      return from === 'multiSelect' ? (splitMultiSelect(text)[0] ?? '') : text;
+    case 'multiSelect':
+      return joinMultiSelect(splitMultiSelect(text));
+    case 'url':
+    case 'text':
+    default:
+      return text;
+  }
+};
@@ -0,0 +1,237 @@
+import { RichTextSpan } from '../types';
+
+// Rich text is stored as spans next to the cell's plain `content`, which is
+// their text joined together, so formulas, sorting, search, CSV and the
+// clipboard keep working on plain text. While a cell is edited its spans are
+// written as Markdown-style markup: **bold**, *italic*, ~~strikethrough~~,
+// `code` and [links](https://example.com).
+
+type Mark = 'bold' | 'italic' | 'strikethrough' | 'code';
+
+// Longer markers first, so `**` isn't read as two `*`.
+const MARKERS: [string, Mark][] = [['**', 'bold'], ['~~', 'strikethrough'], ['*', 'italic'], ['`', 'code']];
+const MARKS: Mark[] = ['bold', 'italic', 'strikethrough', 'code'];
+const SPECIAL_CHARACTERS = /[\\*~`[\]]/g;
+// The rest of a link after its opening bracket: the text, then the address in parentheses.
+const LINK_PATTERN = /^\[((?:\\.|[^\\\]])*)\]\(((?:\\.|[^\\)])*)\)/;
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+export const escapeMarkup = (text: string) => text.replace(SPECIAL_CHARACTERS, '\\$&');
+
+const escapeHref = (href: string) => href.replace(/[\\)]/g, '\\$&');
+
+// A backslash only escapes characters that mean something in markup, so paths like C:\temp stay as typed.
+const isEscape = (markup: string, index: number) => markup[index] === '\\' && /[\\*~`[\]()]/.test(markup[index + 1] ?? '');
+
+const unescapeMarkup = (text: string) => text.replace(/\\([\\*~`[\]()])/g, '$1');
+
+export const getPlainText = (spans: RichTextSpan[]) => spans.map(span => span.text).join('');
+
+const sameFormat = (a: RichTextSpan, b: RichTextSpan) =>
+  MARKS.every(mark => !!a[mark] === !!b[mark]) && a.href === b.href;
+
+/** Drops empty spans and joins neighbours that are formatted alike. */
+export const normalizeSpans = (spans: RichTextSpan[]): RichTextSpan[] =>
+  spans.reduce<RichTextSpan[]>((result, span) => {
+    if (!span.text) return result;
+    const last = result[result.length - 1];
+    if (last && sameFormat(last, span)) result[result.length - 1] = { ...last, text: last.text + span.text };
+    else result.push(span);
+    return result;
+  }, []);
+
+const hasFormatting = (spans: RichTextSpan[]) => spans.some(span => span.href || MARKS.some(mark => span[mark]));
+
+export const richTextEqual = (a: RichTextSpan[] | undefined, b: RichTextSpan[] | undefined) =>
+  (a?.length ?? 0) === (b?.length ?? 0) &&
+  (a ?? []).every((span, index) => span.text === b![index].text && sameFormat(span, b![index]));
+
+// --- Markup ---
+
+/** Writes spans as the markup `parseMarkup` reads back. */
+export const toMarkup = (spans: RichTextSpan[]): string => {
+  let markup = '';
+  let current: RichTextSpan = { text: '' };
+  // Markers toggle a format on or off. Inside code every other marker is literal,
+  // so code is closed around any other change.
+  const switchTo = (next: RichTextSpan) => {
+    const otherChanges = next.href !== current.href || MARKS.some(mark => mark !== 'code' && !!next[mark] !== !!current[mark]);
+    if (current.code && (!next.code || otherChanges)) markup += '`';
+    if (current.href && next.href !== current.href) markup += `](${escapeHref(current.href)})`;
+    MARKERS.forEach(([marker, mark]) => {
+      if (mark !== 'code' && !!next[mark] !== !!current[mark]) markup += marker;
+    });
+    if (next.href && next.href !== current.href) markup += '[';
+    if (next.code && (!current.code || otherChanges)) markup += '`';
+    current = next;
+  };
+  normalizeSpans(spans).forEach(span => {
+    switchTo(span);
+    markup += escapeMarkup(span.text);
+  });
+  switchTo({ text: '' });
+  return markup;
+};
+
+type Token =
+  | { type: 'text'; text: string }
+  | { type: 'mark'; mark: Mark; marker: string }
+  | { type: 'linkStart' }
+  | { type: 'linkEnd'; href: string };
+
+const hasClosingBacktick = (markup: string, from: number) => {
+  for (let index = from; index < markup.length; index++) {
+    if (isEscape(markup, index)) index++;
+    else if (markup[index] === '`') return true;
+  }
+  return false;
+};
+
+const tokenize = (markup: string): Token[] => {
+  const tokens: Token[] = [];
+  let inCode = false;
+  // Where the open link's text ends and its address begins.
+  let linkEnd: { index: number; length: number; href: string } | null = null;
+  let index = 0;
+  while (index < markup.length) {
+    const char = markup[index];
+    if (isEscape(markup, index)) {
+      tokens.push({ type: 'text', text: markup[index + 1] });
+      index += 2;
+      continue;
+    }
+    if (inCode) {
+      if (char === '`') inCode = false;
+      tokens.push(char === '`' ? { type: 'mark', mark: 'code', marker: char } : { type: 'text', text: char });
+      index++;
+      continue;
+    }
+    if (linkEnd?.index === index) {
+      tokens.push({ type: 'linkEnd', href: linkEnd.href });
+      index += linkEnd.length;
+      linkEnd = null;
+      continue;
+    }
+    const link = !linkEnd && char === '[' ? LINK_PATTERN.exec(markup.slice(index)) : null;
+    if (link) {
+      const textEnd = index + 1 + link[1].length;
+      linkEnd = { index: textEnd, length: link[0].length - link[1].length - 1, href: unescapeMarkup(link[2]).trim() };
+      tokens.push({ type: 'linkStart' });
+      index++;
+      continue;
+    }
+    const marker = MARKERS.find(([text]) => markup.startsWith(text, index));
+    if (marker && (marker[1] !== 'code' || hasClosingBacktick(markup, index + 1))) {
+      if (marker[1] === 'code') inCode = true;
+      tokens.push({ type: 'mark', mark: marker[1], marker: marker[0] });
+      index += marker[0].length;
+      continue;
+    }
+    tokens.push({ type: 'text', text: char });
+    index++;
+  }
+  return tokens;
+};
+
+/** Reads markup into spans. A marker left without its closing partner is kept as text. */
+export const parseMarkup = (markup: string): RichTextSpan[] => {
+  const tokens = tokenize(markup);
+  MARKS.forEach(mark => {
+    const indexes = tokens.flatMap((token, index) => (token.type === 'mark' && token.mark === mark ? [index] : []));
+    if (indexes.length % 2 === 1) {
+      const last = indexes[indexes.length - 1];
+      tokens[last] = { type: 'text', text: (tokens[last] as { marker: string }).marker };
+    }
+  });
+
+  const spans: RichTextSpan[] = [];
+  const format: Omit<RichTextSpan, 'text'> = {};
+  let linkSpans: RichTextSpan[] | null = null;
+  tokens.forEach(token => {
+    if (token.type === 'text') {
+      const span = { text: token.text, ...format };
+      spans.push(span);
+      linkSpans?.push(span);
+    } else if (token.type === 'mark') {
+      format[token.mark] = !format[token.mark];
+      if (!format[token.mark]) delete format[token.mark];
+    } else if (token.type === 'linkStart') {
+      linkSpans = [];
+    } else {
+      if (token.href) linkSpans?.forEach(span => { span.href = token.href; });
+      linkSpans = null;
+    }
+  });
+  return normalizeSpans(spans);
+};
+
+/**
+ * The content and rich text a cell gets from spans. Text without any
+ * formatting, and formulas, are stored as plain content only.
+ */
+export const fromSpans = (spans: RichTextSpan[]): { content: string; richText?: RichTextSpan[] } => {
+  const content = getPlainText(spans);
+  return hasFormatting(spans) && !content.startsWith('=') ? { content, richText: spans } : { content };
+};
+
+/** The content and rich text a cell gets from edited markup. */
+export const fromMarkup = (markup: string) => fromSpans(parseMarkup(markup));
+
+// --- Editing ---
+
+export interface MarkupEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const countRun = (text: string, char: string, fromEnd: boolean) => {
+  let count = 0;
+  while (count < text.length && text[fromEnd ? text.length - 1 - count : count] === char) count++;
+  return count;
+};
+
+// `*` and `**` share a character, so a run of three stars is both.
+const runHasMarker = (run: number, marker: string) => (marker === '*' ? run % 2 === 1 : run >= marker.length);
+
+/** Wraps the selection in `marker`, or unwraps it if it is already wrapped. */
+export const toggleMarker = ({ value, selectionStart: start, selectionEnd: end }: MarkupEdit, marker: string): MarkupEdit => {
+  const before = value.slice(0, start);
+  const after = value.slice(end);
+  if (runHasMarker(countRun(before, marker[0], true), marker) && runHasMarker(countRun(after, marker[0], false), marker)) {
+    return {
+      value: before.slice(0, -marker.length) + value.slice(start, end) + after.slice(marker.length),
+      selectionStart: start - marker.length,
+      selectionEnd: end - marker.length,
+    };
+  }
+  return { value: before + marker + value.slice(start, end) + marker + after, selectionStart: start + marker.length, selectionEnd: end + marker.length };
+};
+
+/** Turns the selection into a link and selects its address, ready to be typed over. */
+export const insertLink = ({ value, selectionStart: start, selectionEnd: end }: MarkupEdit): MarkupEdit => {
+  const text = value.slice(start, end);
+  const href = /^(https?:\/\/|mailto:)\S+$/i.test(text) ? text : 'https://';
+  const before = `${value.slice(0, start)}[${text}](`;
+  return { value: `${before}${escapeHref(href)})${value.slice(end)}`, selectionStart: before.length, selectionEnd: before.length + escapeHref(href).length };
+};
+
+/** Switches plain text being edited over to markup, keeping the selection on the same text. */
+export const escapeEdit = ({ value, selectionStart, selectionEnd }: MarkupEdit): MarkupEdit => ({
+  value: escapeMarkup(value),
+  selectionStart: escapeMarkup(value.slice(0, selectionStart)).length,
+  selectionEnd: escapeMarkup(value.slice(0, selectionEnd)).length,
+});
+
+// --- Rendering ---
+
+/** The address a link opens, or null if it could run script or isn't a web or mail address. */
+export const getSafeHref = (href: string): string | null => {
+  const trimmed = href.trim();
+  if (!/^[a-z][a-z\d+.-]*:/i.test(trimmed)) return trimmed ? `https://${trimmed}` : null;
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(trimmed).protocol) ? trimmed : null;
+  } catch (error) {
+    return null;
+  }
+};
@@ -0,0 +1,32 @@
+import { CellPosition, CellRange } from '../types';
+
+/** Returns the range with `start` as the top-left and `end` as the bottom-right corner. */
+export const normalizeRange = (range: CellRange): CellRange => ({
+  start: { row: Math.min(range.start.row, range.end.row), col: Math.min(range.start.col, range.end.col) },
+  end: { row: Math.max(range.start.row, range.end.row), col: Math.max(range.start.col, range.end.col) },
+});
+
+export const isCellInRange = (range: CellRange, row: number, col: number): boolean => {
+  const { start, end } = normalizeRange(range);
+  return row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+};
+
+export const isSingleCellRange = (range: CellRange): boolean =>
+  range.start.row === range.end.row && range.start.col === range.end.col;
+
+/**
+ * Lists the cells covered by a range. When the range is expressed in view rows
+ * (e.g. while sorted), `rowOrder` maps each view row to its data row.
+ */
+export const getRangePositions = (range: CellRange, rowOrder?: number[]): CellPosition[] => {
+  const { start, end } = normalizeRange(range);
+  const positions: CellPosition[] = [];
+  for (let row = start.row; row <= end.row; row++) {
+    const dataRow = rowOrder ? rowOrder[row] : row;
+    if (dataRow === undefined) continue;
+    for (let col = start.col; col <= end.col; col++) {
+      positions.push({ row: dataRow, col });
+    }
+  }
+  return positions;
+};
@@ -0,0 +1,55 @@
+import { Column, SortKey, TableData } from '../types';
+import { isChecked, parseNumber } from './propertyTypes';
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const isEmpty = (content: string) => content.trim() === '';
+
+/**
+ * Compares two cell contents for an ascending sort. Numbers compare
+ * numerically, text compares naturally ("item 2" before "item 10") using the
+ * user's locale. Empty cells are not handled here; see `getSortedRowOrder`.
+ */
+export const compareContent = (a: string, b: string, column: Column): number => {
+  if (column.type === 'checkbox') {
+    return Number(isChecked(a)) - Number(isChecked(b));
+  }
+  const numA = parseNumber(a);
+  const numB = parseNumber(b);
+  if (numA !== null && numB !== null) return numA - numB;
+  if (column.type === 'number') {
+    if (numA !== null) return -1;
+    if (numB !== null) return 1;
+  }
+  return collator.compare(a.trim(), b.trim());
+};
+
+/**
+ * Returns data row indices in sorted order. The sort is stable, and empty
+ * cells always go last regardless of direction.
+ */
+export const getSortedRowOrder = (tableData: TableData, columns: Column[], sortKeys: SortKey[]): number[] => {
+  const order = tableData.map((_, rowIndex) => rowIndex);
+  const keys = sortKeys
+    .map(key => ({ ...key, colIndex: columns.findIndex(col => col.id === key.columnId) }))
+    .filter(key => key.colIndex !== -1);
+  if (!keys.length) return order;
+
+  return order.sort((rowA, rowB) => {
+    for (const { colIndex, direction } of keys) {
+      const column = columns[colIndex];
+      const a = tableData[rowA][colIndex].content;
+      const b = tableData[rowB][colIndex].content;
+      // An unchecked checkbox is a value, not an empty cell.
+      const emptyA = column.type !== 'checkbox' && isEmpty(a);
+      const emptyB = column.type !== 'checkbox' && isEmpty(b);
+      if (emptyA || emptyB) {
+        if (emptyA && emptyB) continue;
+        return emptyA ? 1 : -1;
+      }
+      const result = compareContent(a, b, column);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return rowA - rowB;
+  });
+};
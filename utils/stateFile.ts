@@ -0,0 +1,257 @@
+import { CellRange, TableState } from '../types';
+import { FILTER_OPERATORS, NUMBER_FORMATS, PROPERTY_TYPES } from '../constants';
+import { isValidMerge, rangesIntersect } from './merges';
+import { compactCellStyles } from './cellStyle';
+
+/**
+ * Version of the saved state format. Bump it whenever a field is added to
+ * `Cell`, `Column` or `TableState`, and add a migration that upgrades files
+ * from the previous version.
+ */
+export const STATE_FILE_VERSION = 7;
+
+const MAX_REPORTED_ERRORS = 20;
+
+type JsonObject = Record<string, unknown>;
+
+/** Either the loaded state, or the problems that prevented loading it. */
+export interface StateFileResult {
+  state: TableState | null;
+  errors: string[];
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// --- Migrations ---
+
+/** `MIGRATIONS[n]` upgrades a file from version n to version n + 1. */
+const MIGRATIONS: Record<number, (data: JsonObject) => JsonObject> = {
+  // Version 1 files were saved before the format was versioned; columns
+  // had no name or property type yet.
+  1: data => ({
+    ...data,
+    columns: Array.isArray(data.columns)
+      ? data.columns.map((column, colIndex) => isObject(column)
+        ? { ...column, name: column.name ?? `Column ${colIndex + 1}`, type: column.type ?? 'text' }
+        : column)
+      : data.columns,
+  }),
+  // Version 3 added conditional formatting rules to columns. They are
+  // optional, so older files load as they are.
+  2: data => data,
+  // Version 4 added merged cells, which older files don't have.
+  3: data => data,
+  // Version 5 added frozen columns; older files have none.
+  4: data => data,
+  // Version 6 added rich text, which cells without any keep as plain content.
+  5: data => data,
+  // Version 7 added column styles, and cells no longer have to store a full
+  // style; the style older files repeat in every cell is dropped on loading.
+  6: data => data,
+};
+
+const migrate = (data: JsonObject, fromVersion: number): JsonObject => {
+  let migrated = data;
+  for (let version = fromVersion; version < STATE_FILE_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return { ...migrated, version: STATE_FILE_VERSION };
+};
+
+// --- Validation ---
+
+const CELL_FIELDS: [string, (value: unknown) => boolean][] = [
+  ['id', value => typeof value === 'string'],
+  ['content', value => typeof value === 'string'],
+];
+
+// Style fields are optional in cells and column styles alike.
+const STYLE_FIELDS: [string, (value: unknown) => boolean][] = [
+  ['color', value => typeof value === 'string'],
+  ['backgroundColor', value => typeof value === 'string'],
+  ['fontSize', value => typeof value === 'number' && value > 0],
+  ['fontWeight', value => value === 'normal' || value === 'bold'],
+  ['textAlign', value => value === 'left' || value === 'center' || value === 'right'],
+];
+
+const checkStyleFields = (target: JsonObject, where: string, errors: string[]) => {
+  STYLE_FIELDS.forEach(([field, isValid]) => {
+    if (field in target && !isValid(target[field])) errors.push(`${where} has an invalid "${field}".`);
+  });
+};
+
+const isValidRichText = (richText: unknown, content: unknown) =>
+  Array.isArray(richText) && richText.every(span =>
+    isObject(span) && typeof span.text === 'string' &&
+    ['bold', 'italic', 'strikethrough', 'code'].every(mark => !(mark in span) || typeof span[mark] === 'boolean') &&
+    (!('href' in span) || typeof span.href === 'string')
+  ) && richText.map(span => span.text).join('') === content;
+
+const checkField = (
+  target: JsonObject, field: string, isValid: (value: unknown) => boolean, where: string, errors: string[]
+) => {
+  if (!(field in target)) errors.push(`${where} is missing "${field}".`);
+  else if (!isValid(target[field])) errors.push(`${where} has an invalid "${field}".`);
+};
+
+const isValidFormatRule = (rule: unknown) => {
+  if (!isObject(rule) || typeof rule.id !== 'string') return false;
+  if (rule.type === 'condition') {
+    return FILTER_OPERATORS.some(({ operator }) => operator === rule.operator) && typeof rule.value === 'string' &&
+      isObject(rule.style) && Object.values(rule.style).every(value => typeof value === 'string');
+  }
+  return rule.type === 'colorScale' && typeof rule.minColor === 'string' && typeof rule.maxColor === 'string';
+};
+
+// Cells and columns are looked up by id, so each id may only be used once.
+const checkUniqueId = (id: unknown, where: string, firstUse: string, seen: Map<string, string>, errors: string[]) => {
+  if (typeof id !== 'string') return;
+  if (seen.has(id)) errors.push(`${where} has the same id as ${seen.get(id)}.`);
+  else seen.set(id, firstUse);
+};
+
+const validateColumns = (columns: unknown[], errors: string[]) => {
+  const columnsById = new Map<string, string>();
+  columns.forEach((column, colIndex) => {
+    const where = `Column ${colIndex + 1}`;
+    if (!isObject(column)) {
+      errors.push(`${where} is not an object.`);
+      return;
+    }
+    checkField(column, 'id', value => typeof value === 'string', where, errors);
+    checkUniqueId(column.id, where, `column ${colIndex + 1}`, columnsById, errors);
+    checkField(column, 'name', value => typeof value === 'string', where, errors);
+    checkField(column, 'isHeader', value => typeof value === 'boolean', where, errors);
+    checkField(column, 'width', value => typeof value === 'number' && value > 0, where, errors);
+    checkField(column, 'type', value => PROPERTY_TYPES.some(({ type }) => type === value), where, errors);
+    if ('options' in column && !(Array.isArray(column.options) && column.options.every(option =>
+      isObject(option) && typeof option.id === 'string' && typeof option.name === 'string' && typeof option.color === 'string'
+    ))) {
+      errors.push(`${where} has invalid select options.`);
+    }
+    if ('numberFormat' in column && !NUMBER_FORMATS.some(({ format }) => format === column.numberFormat)) {
+      errors.push(`${where} has an invalid "numberFormat".`);
+    }
+    if ('formatRules' in column && !(Array.isArray(column.formatRules) && column.formatRules.every(isValidFormatRule))) {
+      errors.push(`${where} has invalid conditional formatting rules.`);
+    }
+    if ('style' in column) {
+      if (isObject(column.style)) checkStyleFields(column.style, `${where} style`, errors);
+      else errors.push(`${where} has an invalid "style".`);
+    }
+  });
+};
+
+const validateTableData = (tableData: unknown[], numColumns: number | null, errors: string[]) => {
+  const cellsById = new Map<string, string>();
+  tableData.forEach((row, rowIndex) => {
+    if (!Array.isArray(row)) {
+      errors.push(`Row ${rowIndex + 1} is not a list of cells.`);
+      return;
+    }
+    if (numColumns !== null && row.length !== numColumns) {
+      errors.push(`Row ${rowIndex + 1} has ${row.length} cells but there are ${numColumns} columns.`);
+    }
+    row.forEach((cell, colIndex) => {
+      const where = `Cell at row ${rowIndex + 1}, column ${colIndex + 1}`;
+      if (!isObject(cell)) {
+        errors.push(`${where} is not an object.`);
+        return;
+      }
+      CELL_FIELDS.forEach(([field, isValid]) => checkField(cell, field, isValid, where, errors));
+      checkUniqueId(cell.id, where, `the cell at row ${rowIndex + 1}, column ${colIndex + 1}`, cellsById, errors);
+      checkStyleFields(cell, where, errors);
+      if ('richText' in cell && !isValidRichText(cell.richText, cell.content)) {
+        errors.push(`${where} has rich text that doesn't match its content.`);
+      }
+    });
+  });
+};
+
+const validate = (data: JsonObject): string[] => {
+  const errors: string[] = [];
+  const { tableData, columns, rowHeights, merges, frozenColumns } = data;
+
+  if (!Array.isArray(columns)) errors.push('"columns" is missing or is not a list.');
+  else if (!columns.length) errors.push('The table has no columns.');
+  else validateColumns(columns, errors);
+
+  if (!Array.isArray(tableData)) errors.push('"tableData" is missing or is not a list.');
+  else if (!tableData.length) errors.push('The table has no rows.');
+  else validateTableData(tableData, Array.isArray(columns) ? columns.length : null, errors);
+
+  if (!Array.isArray(rowHeights)) {
+    errors.push('"rowHeights" is missing or is not a list.');
+  } else {
+    if (Array.isArray(tableData) && rowHeights.length !== tableData.length) {
+      errors.push(`"rowHeights" has ${rowHeights.length} entries but the table has ${tableData.length} rows.`);
+    }
+    rowHeights.forEach((height, rowIndex) => {
+      if (typeof height !== 'number' || height <= 0) errors.push(`Row ${rowIndex + 1} has an invalid height.`);
+    });
+  }
+
+  if (merges !== undefined) {
+    const isRange = (range: unknown): range is CellRange =>
+      isObject(range) && isObject(range.start) && isObject(range.end) &&
+      [range.start.row, range.start.col, range.end.row, range.end.col].every(Number.isInteger);
+    if (!Array.isArray(merges) || !merges.every(isRange)) {
+      errors.push('"merges" is not a list of cell ranges.');
+    } else if (Array.isArray(tableData) && Array.isArray(columns)) {
+      merges.forEach((merge, index) => {
+        if (!isValidMerge(merge, tableData.length, columns.length)) errors.push(`Merged block ${index + 1} is not a block of cells inside the table.`);
+        else if (merges.some((other, otherIndex) => otherIndex < index && rangesIntersect(merge, other))) {
+          errors.push(`Merged block ${index + 1} overlaps another.`);
+        }
+      });
+    }
+  }
+
+  if (frozenColumns !== undefined && !(Number.isInteger(frozenColumns) && (frozenColumns as number) >= 0 &&
+    (!Array.isArray(columns) || (frozenColumns as number) <= columns.length))) {
+    errors.push('"frozenColumns" is not a valid number of columns.');
+  }
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    return [...errors.slice(0, MAX_REPORTED_ERRORS), `…and ${errors.length - MAX_REPORTED_ERRORS} more problems.`];
+  }
+  return errors;
+};
+
+// --- Reading and writing ---
+
+export const toStateFileData = (state: TableState) => ({ version: STATE_FILE_VERSION, ...compactCellStyles(state) });
+
+export const serializeStateFile = (state: TableState): string =>
+  JSON.stringify(toStateFileData(state), null, 2);
+
+/** Migrates saved state data of any known version to the current format and validates it. */
+export const readStateData = (data: unknown): StateFileResult => {
+  if (!isObject(data)) return { state: null, errors: ['The file does not contain a table.'] };
+
+  const version = data.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { state: null, errors: ['"version" is not a valid version number.'] };
+  }
+  if (version > STATE_FILE_VERSION) {
+    return { state: null, errors: [`The file was saved by a newer version of the app (format ${version}).`] };
+  }
+
+  const migrated = migrate(data, version);
+  const errors = validate(migrated);
+  if (errors.length) return { state: null, errors };
+  const { tableData, columns, rowHeights, merges, frozenColumns } = migrated as unknown as TableState;
+  const state = { tableData, columns, rowHeights, ...(merges?.length ? { merges } : {}), ...(frozenColumns ? { frozenColumns } : {}) };
+  return { state: compactCellStyles(state), errors: [] };
+};
+
+export const parseStateFile = (text: string): StateFileResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return { state: null, errors: ['The file is not valid JSON.'] };
+  }
+  return readStateData(data);
+};
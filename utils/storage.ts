@@ -0,0 +1,161 @@
+import { TableState } from '../types';
+import { readStateData, toStateFileData } from './stateFile';
+
+const DB_NAME = 'notion-like-table';
+const DB_VERSION = 2;
+const DOCUMENTS_STORE = 'documents';
+// Names and dates are kept apart from the tables, so listing documents doesn't read every table.
+const SUMMARIES_STORE = 'summaries';
+const LAST_DOCUMENT_KEY = 'notion-like-table:last-document-id';
+
+export interface TableDocument {
+  id: string;
+  name: string;
+  state: TableState;
+  updatedAt: number;
+}
+
+export type TableDocumentSummary = Omit<TableDocument, 'state'>;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        if (db.objectStoreNames.contains(SUMMARIES_STORE)) return;
+        // Version 1 kept names and dates with the tables; copy them out once.
+        const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' });
+        const cursorRequest = request.transaction!.objectStore(DOCUMENTS_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const { id, name, updatedAt } = cursor.value;
+          summaries.put({ id, name, updatedAt });
+          cursor.continue();
+        };
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the app open in another tab upgrade the database.
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The database is open in another tab with an older version of the app.'));
+    });
+    // Allow a later call to retry if opening failed.
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+/**
+ * Runs `run` in a transaction over both stores and resolves with what the
+ * function it returns gives once the transaction has completed.
+ */
+const runTransaction = async <T,>(
+  mode: IDBTransactionMode,
+  run: (documents: IDBObjectStore, summaries: IDBObjectStore) => () => T
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([DOCUMENTS_STORE, SUMMARIES_STORE], mode);
+    const getResult = run(transaction.objectStore(DOCUMENTS_STORE), transaction.objectStore(SUMMARIES_STORE));
+    transaction.oncomplete = () => resolve(getResult());
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const sortDocuments = (documents: TableDocumentSummary[]) =>
+  [...documents].sort((a, b) => b.updatedAt - a.updatedAt);
+
+/** Lists stored documents, most recently edited first. */
+export const listDocuments = async (): Promise<TableDocumentSummary[]> => {
+  const summaries = await runTransaction('readonly', (_, store) => {
+    const request = store.getAll();
+    return () => request.result as TableDocumentSummary[];
+  });
+  return sortDocuments(summaries);
+};
+
+// Documents are stored in the versioned state file format, so older ones are migrated when loaded.
+export const loadDocument = async (id: string): Promise<TableDocument | undefined> => {
+  const [stored, summary] = await runTransaction('readonly', (documents, summaries) => {
+    const documentRequest = documents.get(id);
+    const summaryRequest = summaries.get(id);
+    return () => [documentRequest.result as { state: unknown } | undefined, summaryRequest.result as TableDocumentSummary | undefined] as const;
+  });
+  if (!stored || !summary) return undefined;
+  const result = readStateData(stored.state);
+  if (!result.state) {
+    console.error(`Stored table "${summary.name}" is invalid:`, result.errors);
+    return undefined;
+  }
+  return { ...summary, state: result.state };
+};
+
+export const saveDocument = async (document: TableDocument): Promise<void> => {
+  const { state, ...summary } = document;
+  await runTransaction('readwrite', (documents, summaries) => {
+    documents.put({ id: document.id, state: toStateFileData(state) });
+    summaries.put(summary);
+    return () => undefined;
+  });
+};
+
+/**
+ * Renames a stored document or replaces its table, leaving the rest of it as
+ * stored. Resolves with its new summary, or undefined if it no longer exists.
+ */
+export const updateDocument = async (
+  id: string, changes: { name?: string; state?: TableState }
+): Promise<TableDocumentSummary | undefined> =>
+  runTransaction('readwrite', (documents, summaries) => {
+    let updated: TableDocumentSummary | undefined;
+    const request = summaries.get(id);
+    request.onsuccess = () => {
+      const summary = request.result as TableDocumentSummary | undefined;
+      if (!summary) return;
+      updated = { ...summary, ...(changes.name !== undefined ? { name: changes.name } : {}) };
+      if (changes.state) {
+        updated.updatedAt = Date.now();
+        documents.put({ id, state: toStateFileData(changes.state) });
+      }
+      summaries.put(updated);
+    };
+    return () => updated;
+  });
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', (documents, summaries) => {
+    documents.delete(id);
+    summaries.delete(id);
+    return () => undefined;
+  });
+};
+
+// The last open document is remembered in localStorage so it can be read without opening the database.
+export const getLastDocumentId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_DOCUMENT_KEY);
+  } catch (error) {
+    return null;
+  }
+};
+
+export const setLastDocumentId = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(LAST_DOCUMENT_KEY, id);
+    else localStorage.removeItem(LAST_DOCUMENT_KEY);
+  } catch (error) {
+    // Storage can be unavailable, e.g. in some private browsing modes.
+  }
+};
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { createTableStore } from './tableStore';
+import { createTableActions, createTableFromRows } from './tableActions';
+
+describe('sortRows', () => {
+  it('orders formula cells by their results, the way the view sorts them', () => {
+    const store = createTableStore(createTableFromRows([['3'], ['=A1*10'], ['=A1*100'], ['20'], ['5']], null));
+    createTableActions(store).sortRows([{ columnId: store.getState()!.columns[0].id, direction: 'asc' }]);
+    expect(store.getState()!.tableData.map(row => row[0].content)).toEqual(['3', '5', '20', '=A1*10', '=A1*100']);
+    expect([...store.getFormulaValues().values()]).toEqual(['30', '300']);
+  });
+});
@@ -0,0 +1,453 @@
+import {
+  TableData, TableState, Column, Cell, CellPosition, CellRange, CellStyle, ColumnType, NumberFormat, SelectOption, SortKey, FormatRule,
+  TableOperation, PastedCell, CellContentChange, RichTextSpan, BeforeOperationHook, OperationListener
+} from '../types';
+import { convertContent, collectSelectOptions } from './propertyTypes';
+import { normalizeRange, getRangePositions } from './selection';
+import { ClipboardGrid } from './clipboard';
+import { getSortedRowOrder } from './sorting';
+import { insertIndexMap, shiftTableReferences } from './formula';
+import { withFormulaValues } from './formulaEngine';
+import { applyOperation } from './operations';
+import { toDataRange } from './merges';
+import { TableStore } from './tableStore';
+
+const DEFAULT_COL_WIDTH = 200;
+const DEFAULT_ROW_HEIGHT = 40;
+
+// New cells have no style of their own, so they look like the rest of their column.
+const createNewCell = (): Cell => ({
+  id: crypto.randomUUID(),
+  content: '',
+});
+
+const getUniqueColumnName = (baseName: string, columns: Column[]): string => {
+  const names = new Set(columns.map(col => col.name));
+  if (!names.has(baseName)) return baseName;
+  let suffix = 2;
+  while (names.has(`${baseName} ${suffix}`)) suffix++;
+  return `${baseName} ${suffix}`;
+};
+
+const createNewColumn = (columns: Column[]): Column => ({
+  id: crypto.randomUUID(),
+  name: getUniqueColumnName(`Column ${columns.length + 1}`, columns),
+  isHeader: false,
+  width: DEFAULT_COL_WIDTH,
+  type: 'text',
+});
+
+const createInitialTable = (rows: number, cols: number): [TableData, Column[], number[]] => {
+  const tableData: TableData = Array.from({ length: rows }, () => 
+    Array.from({ length: cols }, createNewCell)
+  );
+  const columns: Column[] = Array.from({ length: cols }, (_, colIndex) => ({
+    id: crypto.randomUUID(),
+    name: `Column ${colIndex + 1}`,
+    isHeader: false,
+    width: DEFAULT_COL_WIDTH,
+    type: 'text',
+  }));
+  columns[0].isHeader = true; // Default first column as header
+  const rowHeights: number[] = Array.from({ length: rows }, () => DEFAULT_ROW_HEIGHT);
+  return [tableData, columns, rowHeights];
+};
+
+export const createInitialState = (): TableState => {
+  const [tableData, columns, rowHeights] = createInitialTable(3, 3);
+  return { tableData, columns, rowHeights };
+};
+
+export const createTableFromRows = (rows: string[][], columnNames: string[] | null): TableState => {
+  const numCols = rows.reduce((max, row) => Math.max(max, row.length), Math.max(1, columnNames?.length ?? 0));
+  const columns: Column[] = [];
+  for (let colIndex = 0; colIndex < numCols; colIndex++) {
+    const column = createNewColumn(columns);
+    const name = columnNames?.[colIndex]?.trim();
+    columns.push(name ? { ...column, name: getUniqueColumnName(name, columns) } : column);
+  }
+  const sourceRows = rows.length ? rows : [[]];
+  const tableData: TableData = sourceRows.map(row =>
+    Array.from({ length: numCols }, (_, colIndex) => ({ ...createNewCell(), content: row[colIndex] ?? '' }))
+  );
+  const rowHeights = sourceRows.map(() => DEFAULT_ROW_HEIGHT);
+  return { tableData, columns, rowHeights };
+};
+
+/**
+ * The table's mutators. Each one describes its change as a `TableOperation`
+ * and passes it to `dispatchOperation`, which runs the `beforeOperation` hooks,
+ * applies the operation to `store` (recording it in the undo history) and
+ * reports it to the operation listeners.
+ */
+export const createTableActions = (store: TableStore) => {
+  const beforeOperationHooks = new Set<BeforeOperationHook>();
+  const operationListeners = new Set<OperationListener>();
+
+  // The operation the hooks let through, possibly replaced, or null if one rejected it.
+  const runBeforeOperationHooks = (operation: TableOperation, state: TableState): TableOperation | null => {
+    let next = operation;
+    for (const hook of beforeOperationHooks) {
+      const result = hook(next, state);
+      if (result === false) return null;
+      if (result) next = result;
+    }
+    return next;
+  };
+
+  const dispatchOperation = (operation: TableOperation) => {
+    const state = store.getState();
+    if (!state) return;
+    const next = runBeforeOperationHooks(operation, state);
+    if (!next) return;
+    store.setState(prev => prev && applyOperation(prev, next));
+    if (store.getState() !== state) operationListeners.forEach(listener => listener(next));
+  };
+
+  // Undo and redo are reported as the table they bring back. A hook that
+  // replaces that operation turns the step into an ordinary edit.
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const state = store.getState();
+    const target = direction === 'undo' ? store.getUndoState() : store.getRedoState();
+    if (target === undefined) return;
+    // Steps to or from having no table at all aren't edits an operation can describe.
+    if (!state || !target) {
+      store[direction]();
+      return;
+    }
+    const operation = runBeforeOperationHooks({ type: 'tableReplaced', state: target }, state);
+    if (!operation) return;
+    if (operation.type === 'tableReplaced' && operation.state === target) store[direction]();
+    else store.setState(prev => prev && applyOperation(prev, operation));
+    if (store.getState() !== state) operationListeners.forEach(listener => listener(operation));
+  };
+
+  /** Adds a hook that can reject or replace operations before they are applied. Returns a function that removes it. */
+  const addBeforeOperationHook = (hook: BeforeOperationHook) => {
+    beforeOperationHooks.add(hook);
+    return () => { beforeOperationHooks.delete(hook); };
+  };
+
+  /** Calls `listener` with every operation that changed the table. Returns a function that unsubscribes it. */
+  const subscribeOperations = (listener: OperationListener) => {
+    operationListeners.add(listener);
+    return () => { operationListeners.delete(listener); };
+  };
+
+  // Dispatches several operations as a single undo step.
+  const dispatchBatch = (dispatch: () => void) => {
+    store.beginBatch();
+    try {
+      dispatch();
+    } finally {
+      store.endBatch();
+    }
+  };
+
+  const getColumnPositions = (state: TableState, col: number): CellPosition[] =>
+    state.tableData.map((_, row) => ({ row, col }));
+
+  // Content set without rich text is plain, and replaces any formatting the cell had.
+  const updateCellContent = (rowIndex: number, colIndex: number, content: string, richText?: RichTextSpan[]) => {
+    dispatchOperation({ type: 'cellContentChanged', row: rowIndex, col: colIndex, content, ...(richText ? { richText } : {}) });
+  };
+
+  // Updates several cells as a single operation, e.g. for replace all.
+  const updateCellContents = (changes: CellContentChange[]) => {
+    if (changes.length) dispatchOperation({ type: 'cellsContentChanged', cells: changes });
+  };
+
+  const updateCellStyles = (rowIndex: number, colIndex: number, styles: Partial<CellStyle>) => {
+    dispatchOperation({ type: 'cellStyleChanged', cells: [{ row: rowIndex, col: colIndex }], style: styles });
+  };
+
+  // Range mutators take an optional `rowOrder` when the range is expressed in
+  // view rows (e.g. while the table is sorted without reordering the data).
+  const updateRangeStyles = (range: CellRange, styles: Partial<CellStyle>, rowOrder?: number[]) => {
+    dispatchOperation({ type: 'cellStyleChanged', cells: getRangePositions(range, rowOrder), style: styles });
+  };
+
+  const resetRangeStyles = (range: CellRange, rowOrder?: number[]) => {
+    dispatchOperation({ type: 'cellsStyleReset', cells: getRangePositions(range, rowOrder) });
+  };
+
+  const clearRangeContent = (range: CellRange, rowOrder?: number[]) => {
+    dispatchOperation({ type: 'cellsCleared', cells: getRangePositions(range, rowOrder) });
+  };
+
+  const mergeCells = (range: CellRange, rowOrder?: number[]) => {
+    const normalized = normalizeRange(range);
+    const dataRange = rowOrder ? toDataRange(normalized, rowOrder) : normalized;
+    if (dataRange) dispatchOperation({ type: 'cellsMerged', range: dataRange });
+  };
+
+  const unmergeCells = (range: CellRange, rowOrder?: number[]) => {
+    const merges = store.getState()?.merges;
+    if (!merges?.length) return;
+    const { start, end } = normalizeRange(range);
+    const dataRows = rowOrder ? rowOrder.slice(start.row, end.row + 1) : null;
+    const ranges = merges.filter(merge =>
+      merge.start.col <= end.col && start.col <= merge.end.col &&
+      (dataRows ? dataRows.some(row => row >= merge.start.row && row <= merge.end.row) : merge.start.row <= end.row && start.row <= merge.end.row)
+    );
+    if (ranges.length) dispatchOperation({ type: 'cellsUnmerged', ranges });
+  };
+
+  const pasteGrid = (target: CellRange, grid: ClipboardGrid, rowOrder?: number[]) => {
+    const state = store.getState();
+    if (!state || !grid.length || !grid[0].length) return;
+    const { start, end } = normalizeRange(target);
+    // A single copied value fills the whole target selection, like spreadsheets do.
+    const isSingleValue = grid.length === 1 && grid[0].length === 1;
+    const numRows = isSingleValue ? end.row - start.row + 1 : grid.length;
+    const numCols = isSingleValue ? end.col - start.col + 1 : grid.reduce((max, row) => Math.max(max, row.length), 0);
+
+    dispatchBatch(() => {
+      // Columns and view rows past the end of the table are added first.
+      for (let colIndex = state.columns.length; colIndex < start.col + numCols; colIndex++) {
+        const { columns, tableData } = store.getState()!;
+        dispatchOperation({
+          type: 'columnInserted',
+          index: columns.length,
+          column: createNewColumn(columns),
+          cells: tableData.map(createNewCell),
+        });
+      }
+      const order = rowOrder ? [...rowOrder] : state.tableData.map((_, index) => index);
+      while (order.length < start.row + numRows) {
+        const { columns, tableData } = store.getState()!;
+        order.push(tableData.length);
+        dispatchOperation({
+          type: 'rowInserted',
+          index: tableData.length,
+          cells: Array.from({ length: columns.length }, createNewCell),
+          height: DEFAULT_ROW_HEIGHT,
+        });
+      }
+      const targetRows = order.slice(start.row, start.row + numRows);
+
+      const { columns } = store.getState()!;
+      const cells: PastedCell[] = [];
+      for (let r = 0; r < numRows; r++) {
+        for (let c = 0; c < numCols; c++) {
+          const source = isSingleValue ? grid[0][0] : grid[r][c];
+          const column = columns[start.col + c];
+          if (!source || !column) continue;
+          cells.push({ row: targetRows[r], col: start.col + c, content: convertContent(source.content, 'text', column.type), style: source.style });
+        }
+      }
+      dispatchOperation({ type: 'cellsPasted', cells });
+
+      // Pasted values that aren't options of a select column yet become options.
+      for (let c = 0; c < numCols; c++) {
+        const colIndex = start.col + c;
+        const { tableData, columns } = store.getState()!;
+        const column = columns[colIndex];
+        if (column?.type !== 'select' && column?.type !== 'multiSelect') continue;
+        const contents = targetRows.map(rowIndex => tableData[rowIndex]?.[colIndex]?.content ?? '');
+        const options = collectSelectOptions(contents, column.type, column.options);
+        if (options.length !== (column.options?.length ?? 0)) {
+          dispatchOperation({ type: 'columnOptionsChanged', index: colIndex, options });
+        }
+      }
+    });
+  };
+
+  const addRow = () => {
+    const state = store.getState();
+    if (!state) return;
+    dispatchOperation({
+      type: 'rowInserted',
+      index: state.tableData.length,
+      cells: Array.from({ length: state.columns.length }, createNewCell),
+      height: DEFAULT_ROW_HEIGHT,
+    });
+  };
+
+  const insertRow = (direction: 'above' | 'below', rowIndex: number) => {
+    const state = store.getState();
+    if (!state) return;
+    dispatchOperation({
+      type: 'rowInserted',
+      index: direction === 'below' ? rowIndex + 1 : rowIndex,
+      cells: Array.from({ length: state.columns.length }, createNewCell),
+      height: DEFAULT_ROW_HEIGHT,
+    });
+  };
+
+  const duplicateRow = (rowIndex: number) => {
+    const state = store.getState();
+    if (!state?.tableData[rowIndex]) return;
+    // The copy's formulas are shifted like those of the rows it pushes down.
+    const [row] = shiftTableReferences([state.tableData[rowIndex]], insertIndexMap(rowIndex + 1));
+    dispatchOperation({
+      type: 'rowInserted',
+      index: rowIndex + 1,
+      cells: row.map(cell => ({ ...cell, id: crypto.randomUUID() })),
+      height: state.rowHeights[rowIndex],
+    });
+  };
+
+  const clearRowContent = (rowIndex: number) => {
+    const state = store.getState();
+    if (!state?.tableData[rowIndex]) return;
+    dispatchOperation({ type: 'cellsCleared', cells: state.columns.map((_, col) => ({ row: rowIndex, col })) });
+  };
+
+  const deleteRow = (rowIndex: number) => {
+    dispatchOperation({ type: 'rowDeleted', index: rowIndex });
+  };
+
+  const moveRow = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return;
+    dispatchOperation({ type: 'rowMoved', from: fromIndex, to: toIndex });
+  };
+
+  const sortRows = (sortKeys: SortKey[]) => {
+    const state = store.getState();
+    if (!state || !sortKeys.length) return;
+    // Sorted by what cells display, like the view, so the saved order is the one the user saw.
+    const order = getSortedRowOrder(withFormulaValues(state.tableData, store.getFormulaValues()), state.columns, sortKeys);
+    if (order.every((dataRow, index) => dataRow === index)) return;
+    dispatchOperation({ type: 'rowsSorted', order });
+  };
+
+  const addColumn = (direction: 'left' | 'right', colIndex: number) => {
+    const state = store.getState();
+    if (!state) return;
+    dispatchOperation({
+      type: 'columnInserted',
+      index: direction === 'right' ? colIndex + 1 : colIndex,
+      column: createNewColumn(state.columns),
+      cells: state.tableData.map(createNewCell),
+    });
+  };
+
+  const deleteColumn = (colIndex: number) => {
+    dispatchOperation({ type: 'columnDeleted', index: colIndex });
+  };
+
+  const moveColumn = (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return;
+    dispatchOperation({ type: 'columnMoved', from: fromIndex, to: toIndex });
+  };
+
+  const clearColumnContent = (colIndex: number) => {
+    const state = store.getState();
+    if (!state) return;
+    dispatchOperation({ type: 'cellsCleared', cells: getColumnPositions(state, colIndex) });
+  };
+
+  const duplicateColumn = (colIndex: number) => {
+    const state = store.getState();
+    const columnToDuplicate = state?.columns[colIndex];
+    if (!state || !columnToDuplicate) return;
+    const shifted = shiftTableReferences(state.tableData.map(row => [row[colIndex]]), undefined, insertIndexMap(colIndex + 1));
+    dispatchOperation({
+      type: 'columnInserted',
+      index: colIndex + 1,
+      column: {
+        ...columnToDuplicate,
+        id: crypto.randomUUID(),
+        name: getUniqueColumnName(columnToDuplicate.name, state.columns),
+      },
+      cells: shifted.map(([cell]) => ({ ...cell, id: crypto.randomUUID() })),
+    });
+  };
+
+  const renameColumn = (colIndex: number, name: string) => {
+    dispatchOperation({ type: 'columnRenamed', index: colIndex, name });
+  };
+
+  const toggleHeaderColumn = (colIndex: number) => {
+    const column = store.getState()?.columns[colIndex];
+    if (!column) return;
+    dispatchOperation({ type: 'columnHeaderChanged', index: colIndex, isHeader: !column.isHeader });
+  };
+
+  // Sets the column's default style. Cells that set their own style keep it.
+  const setColumnStyle = (colIndex: number, style: Partial<CellStyle>) => {
+    dispatchOperation({ type: 'columnStyleChanged', index: colIndex, style });
+  };
+
+  const setColumnColor = (colIndex: number, type: 'text' | 'background', value: string) => {
+    setColumnStyle(colIndex, type === 'text' ? { color: value } : { backgroundColor: value });
+  };
+
+  const setColumnType = (colIndex: number, type: ColumnType) => {
+    const state = store.getState();
+    const column = state?.columns[colIndex];
+    if (!state || !column || column.type === type) return;
+    // New select options are chosen here, so the operation carries them.
+    const options = type === 'select' || type === 'multiSelect'
+      ? collectSelectOptions(state.tableData.map(row => convertContent(row[colIndex].content, column.type, type)), type, column.options)
+      : undefined;
+    dispatchOperation({ type: 'columnTypeChanged', index: colIndex, columnType: type, options });
+  };
+
+  const setColumnNumberFormat = (colIndex: number, numberFormat: NumberFormat) => {
+    dispatchOperation({ type: 'columnNumberFormatChanged', index: colIndex, numberFormat });
+  };
+
+  const updateColumnOptions = (colIndex: number, options: SelectOption[]) => {
+    dispatchOperation({ type: 'columnOptionsChanged', index: colIndex, options });
+  };
+
+  const setColumnFormatRules = (colIndex: number, formatRules: FormatRule[]) => {
+    dispatchOperation({ type: 'columnFormatRulesChanged', index: colIndex, formatRules });
+  };
+
+  const freezeColumns = (count: number) => {
+    dispatchOperation({ type: 'columnsFrozen', count });
+  };
+
+  const updateColumnWidth = (colIndex: number, width: number) => {
+    dispatchOperation({ type: 'columnResized', index: colIndex, width });
+  };
+
+  const updateRowHeight = (rowIndex: number, height: number) => {
+    dispatchOperation({ type: 'rowResized', index: rowIndex, height });
+  };
+
+  return {
+    dispatchOperation,
+    addBeforeOperationHook,
+    subscribeOperations,
+    undo: () => stepHistory('undo'),
+    redo: () => stepHistory('redo'),
+    updateCellContent,
+    updateCellContents,
+    updateCellStyles,
+    updateRangeStyles,
+    resetRangeStyles,
+    clearRangeContent,
+    pasteGrid,
+    mergeCells,
+    unmergeCells,
+    addRow,
+    insertRow,
+    duplicateRow,
+    clearRowContent,
+    deleteRow,
+    moveRow,
+    sortRows,
+    addColumn,
+    deleteColumn,
+    moveColumn,
+    clearColumnContent,
+    duplicateColumn,
+    renameColumn,
+    toggleHeaderColumn,
+    setColumnStyle,
+    setColumnColor,
+    setColumnType,
+    setColumnNumberFormat,
+    updateColumnOptions,
+    setColumnFormatRules,
+    updateColumnWidth,
+    freezeColumns,
+    updateRowHeight,
+  };
+};
+
+export type TableActions = ReturnType<typeof createTableActions>;
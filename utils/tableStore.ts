@@ -0,0 +1,160 @@
+import { Cell, CellPosition, TableState } from '../types';
+import { HistoryAction, HistoryState, Updater, historyReducer } from './history';
+import { createFormulaEngine } from './formulaEngine';
+
+/** Row and column order of the present table, by id. Replaced only when rows or columns are added, removed or moved. */
+export interface TableLayout {
+  rowOrder: string[];
+  columnOrder: string[];
+}
+
+export const arraysEqual = <T,>(a: T[], b: T[]) => a.length === b.length && a.every((item, index) => item === b[index]);
+
+/**
+ * Holds the table outside of React so components can subscribe to just the
+ * part they render. The present `TableState` is the immutable snapshot kept in
+ * the undo history and used by formulas, sorting and persistence; alongside it
+ * the store keeps the cells keyed by `Cell.id` and the row and column order,
+ * which are updated in place by diffing each new snapshot against the last one.
+ */
+export const createTableStore = (initialState: TableState | null = null) => {
+  let history: HistoryState<TableState | null> = { past: [], present: null, future: [], lastBatchId: null };
+  let version = 0;
+  let batchId: number | null = null;
+  let batchCounter = 0;
+  let batchDepth = 0;
+  const listeners = new Set<() => void>();
+
+  const cells = new Map<string, Cell>();
+  // The row each cell belongs to, so a row keeps its id when it is moved or edited.
+  const cellRowIds = new Map<string, string>();
+  let layout: TableLayout | null = null;
+
+  const formulaEngine = createFormulaEngine();
+  let formulaValues = new Map<string, string>();
+  let formulaValuesFor: TableState['tableData'] | null = null;
+
+  const indexCells = (state: TableState, rowOrder: string[]) => {
+    cells.clear();
+    cellRowIds.clear();
+    state.tableData.forEach((row, rowIndex) => row.forEach(cell => {
+      cells.set(cell.id, cell);
+      cellRowIds.set(cell.id, rowOrder[rowIndex]);
+    }));
+  };
+
+  const syncIndex = (previous: TableState | null, next: TableState | null) => {
+    if (!next) {
+      cells.clear();
+      cellRowIds.clear();
+      layout = null;
+      return;
+    }
+    const columnOrder = next.columns.map(column => column.id);
+    if (!previous || !layout) {
+      const rowOrder = next.tableData.map(() => crypto.randomUUID());
+      indexCells(next, rowOrder);
+      layout = { rowOrder, columnOrder };
+      return;
+    }
+
+    let rowOrder = layout.rowOrder;
+    let cellIdsChanged = false;
+    if (next.tableData !== previous.tableData) {
+      const previousRowOrder = layout.rowOrder;
+      const usedRowIds = new Set<string>();
+      let cellCount = 0;
+      rowOrder = next.tableData.map((row, rowIndex) => {
+        cellCount += row.length;
+        // Untouched rows keep their id; changed or moved rows are recognised by their cells.
+        let rowId: string | undefined = row === previous.tableData[rowIndex] ? previousRowOrder[rowIndex] : undefined;
+        if (!rowId) {
+          rowId = row.map(cell => cellRowIds.get(cell.id)).find(id => id && !usedRowIds.has(id)) ?? crypto.randomUUID();
+          row.forEach(cell => {
+            cells.set(cell.id, cell);
+            cellRowIds.set(cell.id, rowId!);
+          });
+        }
+        usedRowIds.add(rowId);
+        return rowId;
+      });
+      // Cells were removed or replaced, so drop the stale entries.
+      if (cells.size !== cellCount) {
+        indexCells(next, rowOrder);
+        cellIdsChanged = true;
+      }
+      if (arraysEqual(rowOrder, layout.rowOrder)) rowOrder = layout.rowOrder;
+    }
+    // Components look cells up by id through the layout, so it is replaced whenever the ids change.
+    if (cellIdsChanged || rowOrder !== layout.rowOrder || !arraysEqual(columnOrder, layout.columnOrder)) {
+      layout = { rowOrder, columnOrder };
+    }
+  };
+
+  const dispatch = (action: HistoryAction<TableState | null>) => {
+    const next = historyReducer(history, action);
+    if (next === history) return;
+    const previous = history.present;
+    history = next;
+    if (next.present !== previous) syncIndex(previous, next.present);
+    version++;
+    listeners.forEach(listener => listener());
+  };
+
+  if (initialState) dispatch({ type: 'reset', value: initialState });
+
+  return {
+    getState: () => history.present,
+    getLayout: () => layout,
+    getCell: (id: string) => cells.get(id),
+    /** Where the cell with `id` is in the table data, or null if there is no such cell. */
+    getCellPosition: (id: string): CellPosition | null => {
+      const rowId = cellRowIds.get(id);
+      const row = rowId && layout ? layout.rowOrder.indexOf(rowId) : -1;
+      const col = row >= 0 ? history.present?.tableData[row].findIndex(cell => cell.id === id) ?? -1 : -1;
+      return col >= 0 ? { row, col } : null;
+    },
+    /** Display values of the formula cells, keyed by `cellKey(row, col)`. Recalculated lazily. */
+    getFormulaValues: () => {
+      const tableData = history.present?.tableData ?? [];
+      if (tableData !== formulaValuesFor) {
+        formulaValues = formulaEngine.update(tableData);
+        formulaValuesFor = tableData;
+      }
+      return formulaValues;
+    },
+    /** Increases with every change, for caching values derived from the store. */
+    getVersion: () => version,
+    canUndo: () => history.past.length > 0,
+    canRedo: () => history.future.length > 0,
+    /** The table `undo` would go back to, or undefined if there is nothing to undo. */
+    getUndoState: () => history.past[history.past.length - 1],
+    /** The table `redo` would bring back, or undefined if there is nothing to redo. */
+    getRedoState: () => history.future[0],
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    setState: (updater: Updater<TableState | null>) => dispatch({ type: 'set', updater, batchId }),
+    reset: (value: TableState | null) => dispatch({ type: 'reset', value }),
+    /** Puts `value` in place of the present table without recording an undo step. The history is kept. */
+    replace: (value: TableState | null) => dispatch({ type: 'replace', value }),
+    undo: () => dispatch({ type: 'undo' }),
+    redo: () => dispatch({ type: 'redo' }),
+    /** Updates made until `endBatch` are recorded as a single undo step. Batches nest; the outermost one is recorded. */
+    beginBatch: () => {
+      batchDepth += 1;
+      if (batchDepth > 1) return;
+      batchCounter += 1;
+      batchId = batchCounter;
+    },
+    endBatch: () => {
+      batchDepth = Math.max(0, batchDepth - 1);
+      if (batchDepth === 0) batchId = null;
+    },
+  };
+};
+
+export type TableStore = ReturnType<typeof createTableStore>;
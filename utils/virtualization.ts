@@ -0,0 +1,73 @@
+/** A run of rendered rows/columns, or a gap standing in for the ones skipped between them. */
+export type VirtualItem =
+  | { type: 'item'; index: number }
+  | { type: 'gap'; key: string; size: number };
+
+/** Prefix sums of `sizes`: `offsets[i]` is where item i starts and `offsets[sizes.length]` is the total size. */
+export const getOffsets = (sizes: number[]): number[] => {
+  const offsets = new Array<number>(sizes.length + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < sizes.length; i++) offsets[i + 1] = offsets[i] + sizes[i];
+  return offsets;
+};
+
+/** Index of the item that contains `position`, clamped to the first and last item. */
+export const findIndexAt = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(0, low);
+};
+
+/**
+ * Lists the items overlapping `[start, end)` plus `overscan` items on either
+ * side, and any `pinned` items that must stay rendered. Each of `spans` (first
+ * and last index) is rendered whole as soon as any item in it is, e.g. the rows
+ * of a merged cell. Skipped items are replaced by gaps of the same total size so
+ * the scroll size stays exact.
+ */
+export const getVirtualItems = (
+  offsets: number[], start: number, end: number, overscan: number, pinned: (number | null | undefined)[] = [],
+  spans: [number, number][] = []
+): VirtualItem[] => {
+  const count = offsets.length - 1;
+  if (count <= 0) return [];
+  const first = Math.max(0, findIndexAt(offsets, start) - overscan);
+  const last = Math.min(count - 1, findIndexAt(offsets, end) + overscan);
+
+  const indices = new Set<number>();
+  for (let i = first; i <= last; i++) indices.add(i);
+  pinned.forEach(index => {
+    if (index !== null && index !== undefined && index >= 0 && index < count) indices.add(index);
+  });
+  // Completing one span can reach into another, so repeat until nothing changes.
+  let grown = spans.length > 0;
+  while (grown) {
+    grown = false;
+    spans.forEach(([first, last]) => {
+      let touched = false;
+      for (let i = first; i <= last && !touched; i++) touched = indices.has(i);
+      if (!touched) return;
+      for (let i = first; i <= Math.min(last, count - 1); i++) {
+        if (!indices.has(i)) {
+          indices.add(i);
+          grown = true;
+        }
+      }
+    });
+  }
+
+  const items: VirtualItem[] = [];
+  let next = 0;
+  Array.from(indices).sort((a, b) => a - b).forEach(index => {
+    if (index > next) items.push({ type: 'gap', key: `gap-${next}`, size: offsets[index] - offsets[next] });
+    items.push({ type: 'item', index });
+    next = index + 1;
+  });
+  if (next < count) items.push({ type: 'gap', key: `gap-${next}`, size: offsets[count] - offsets[next] });
+  return items;
+};
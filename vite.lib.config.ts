@@ -0,0 +1,21 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+// Builds the table as a library (`npm run build:lib`). React is left to the host app.
+export default defineConfig({
+  plugins: [react()],
+  build: {
+    outDir: 'dist-lib',
+    copyPublicDir: false,
+    lib: {
+      entry: path.resolve(__dirname, 'lib/index.ts'),
+      formats: ['es', 'cjs'],
+      fileName: 'notion-like-table',
+      cssFileName: 'notion-like-table',
+    },
+    rollupOptions: {
+      external: ['react', 'react-dom', 'react/jsx-runtime'],
+    },
+  },
+});